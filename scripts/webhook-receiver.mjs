@@ -0,0 +1,60 @@
+// Local stand-in for a webhook receiver. Verifies the X-Sentinel-Signature
+// header and prints each alert payload.
+//
+//   WEBHOOK_SECRET=<secret from POST /api/v1/webhooks> node scripts/webhook-receiver.mjs
+//
+// Set FAIL_FIRST=2 to answer the first two requests with 503 and watch the
+// worker retry with backoff.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT || 8788);
+const secret = process.env.WEBHOOK_SECRET || "";
+let failuresLeft = Number(process.env.FAIL_FIRST || 0);
+
+function verify(timestamp, body, header) {
+  if (!secret || !timestamp || !header) return false;
+  const expected = `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+  return (
+    expected.length === header.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(header))
+  );
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[receiver] Simulating failure (${failuresLeft} left)`);
+      res.writeHead(503).end();
+      return;
+    }
+
+    const valid = verify(
+      req.headers["x-sentinel-timestamp"],
+      body,
+      req.headers["x-sentinel-signature"]
+    );
+    console.log(`[receiver] ${req.method} ${req.url} signature=${valid ? "valid" : "INVALID"}`);
+
+    let payload;
+    try {
+      payload = JSON.parse(body || "{}");
+    } catch {
+      console.log("[receiver] Body is not valid JSON");
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Invalid JSON" }));
+      return;
+    }
+    console.log(JSON.stringify(payload, null, 2));
+
+    res.writeHead(valid ? 200 : 401, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: true, valid }));
+  });
+}).listen(port, () => {
+  console.log(`[receiver] Listening on http://localhost:${port}`);
+});
@@ -1,7 +1,56 @@
 import { DurableObject } from "cloudflare:workers";
-import type { AnalysisResult, ChatMessage, ChatSession, Env } from "../types";
+import type {
+  AiTelemetry,
+  AlertEvent,
+  AnalysisDiff,
+  AnalysisListItem,
+  AnalysisResult,
+  ChatMessage,
+  ChatSession,
+  Env,
+  ScanDone,
+  ScanEvent,
+  ScanOptions,
+  ScanJob,
+  ScanProgress,
+  WatchedSite,
+  WebhookDelivery,
+  WebhookTarget,
+} from "../types";
+import { diffAnalyses } from "../worker/diff";
+import { scanWebsite } from "../worker/scan";
+import { journeyCredentials } from "../worker/journey";
+import { deliverWebhook, detectAlerts } from "../worker/alerts";
+
+// Scheduled rescans run no more often than this
+const MIN_WATCH_INTERVAL_MINUTES = 15;
+// Scans started per alarm; anything else due waits for the next alarm
+const MAX_SCANS_PER_ALARM = 3;
+// Largest page returned by the history endpoint
+const MAX_HISTORY_PAGE_SIZE = 50;
+// Delivery log entries kept per webhook
+const MAX_DELIVERIES_PER_WEBHOOK = 50;
+// How often an open event stream checks storage for new job events
+const JOB_EVENT_POLL_MS = 500;
+// Comment line sent on idle streams so proxies keep them open
+const JOB_HEARTBEAT_MS = 15000;
+// Event streams give up after this long even if the job never finishes
+const MAX_JOB_STREAM_MS = 10 * 60_000;
+// Result fields that can outgrow the 128 KiB value limit; they are stored
+// under keys of their own, in chunks
+const CHUNKED_FIELDS = ["network", "inlineScripts"] as const;
+// Serialized size of one stored chunk
+const MAX_CHUNK_BYTES = 100 * 1024;
+// Keys read or written per storage call
+const MAX_KEYS_PER_CALL = 128;
+
+type ChunkedField = (typeof CHUNKED_FIELDS)[number];
+
+export class ScriptAnalyzer extends DurableObject<Env> {
+  // Journey credentials for this instance's scan job. Memory only: if the
+  // instance is evicted before the alarm fires, the job fails instead.
+  private jobCredentials: Record<string, string> = {};
 
-export class ScriptAnalyzer extends DurableObject {
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
   }
@@ -19,6 +68,78 @@ export class ScriptAnalyzer extends DurableObject {
       return this.retrieveAnalyses();
     }
 
+    // Paginated history, optionally filtered by host and date range
+    if (url.pathname === "/analyses" && request.method === "GET") {
+      return this.listAnalyses(request);
+    }
+
+    if (url.pathname === "/analyses/get" && request.method === "GET") {
+      return this.getAnalysis(request);
+    }
+
+    // Compare two scans of the same site
+    if (url.pathname === "/diff" && request.method === "GET") {
+      return this.diffScans(request);
+    }
+
+    // Watchlist CRUD for scheduled rescans
+    if (url.pathname === "/watch") {
+      switch (request.method) {
+        case "GET":
+          return this.listWatches();
+        case "POST":
+          return this.createWatch(request);
+        case "PATCH":
+          return this.updateWatch(request);
+        case "DELETE":
+          return this.deleteWatch(request);
+      }
+    }
+
+    // Webhook alert targets
+    if (url.pathname === "/webhooks") {
+      switch (request.method) {
+        case "GET":
+          return this.listWebhooks();
+        case "POST":
+          return this.createWebhook(request);
+        case "DELETE":
+          return this.deleteWebhook(request);
+      }
+    }
+
+    if (url.pathname === "/webhooks/deliveries" && request.method === "GET") {
+      return this.listDeliveries(request);
+    }
+
+    // Send a sample alert so a receiver can be checked end to end
+    if (url.pathname === "/webhooks/test" && request.method === "POST") {
+      return this.testWebhook(request);
+    }
+
+    // Running totals of AI output validation
+    if (url.pathname === "/telemetry/ai") {
+      switch (request.method) {
+        case "GET":
+          return this.getAiTelemetry();
+        case "POST":
+          return this.recordAiTelemetry(request);
+      }
+    }
+
+    // Async scan jobs, one Durable Object instance per job
+    if (url.pathname === "/job/start" && request.method === "POST") {
+      return this.startJob(request);
+    }
+
+    if (url.pathname === "/job" && request.method === "GET") {
+      return this.getJob();
+    }
+
+    if (url.pathname === "/job/events" && request.method === "GET") {
+      return this.streamJobEvents(request);
+    }
+
     if (url.pathname === "/chat/message" && request.method === "POST") {
       return this.storeChatMessage(request);
     }
@@ -34,18 +155,379 @@ export class ScriptAnalyzer extends DurableObject {
     return new Response("Not Found", { status: 404 });
   }
 
-  private async storeAnalysis(request: Request): Promise<Response> {
+  // Queued scan jobs and scheduled rescans of watched sites
+  async alarm(): Promise<void> {
+    const job = await this.ctx.storage.get<ScanJob>("job");
+    if (job?.status === "queued") {
+      await this.runJob(job);
+    } else if (job?.status === "running") {
+      // The instance was reset mid-scan; don't replay half the events
+      await this.finishJob(job, {
+        type: "error",
+        message: "Scan was interrupted",
+      });
+    }
+
+    const now = Date.now();
+    const watches = await this.ctx.storage.list<WatchedSite>({
+      prefix: "watch:",
+    });
+    const due = Array.from(watches.values())
+      .filter((watch) => watch.enabled && watch.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)
+      .slice(0, MAX_SCANS_PER_ALARM);
+
+    // One at a time: each scan holds a Browser Rendering session
+    for (const watch of due) {
+      await this.runWatch(watch);
+    }
+
+    await this.scheduleNextAlarm();
+  }
+
+  private async runWatch(watch: WatchedSite): Promise<void> {
+    const startedAt = Date.now();
+    const updated: WatchedSite = {
+      ...watch,
+      lastRunAt: startedAt,
+      nextRunAt: startedAt + watch.intervalMinutes * 60_000,
+    };
+
     try {
-      const data = (await request.json()) as AnalysisResult;
-      const key = `analysis:${data.url}:${Date.now()}`;
+      const result = await scanWebsite(watch.url, this.env, watch.options);
+      const { key } = await this.saveAnalysis(result);
+      await this.dispatchAlerts(result);
+
+      updated.lastStatus = "ok";
+      updated.lastError = undefined;
+      updated.lastAnalysisKey = key;
+      updated.lastDiff = await this.diffLatest(new URL(watch.url).hostname);
+    } catch (error) {
+      console.error("[Watch] Scan failed", watch.url, error);
+      updated.lastStatus = "error";
+      updated.lastError =
+        error instanceof Error ? error.message : "Unknown error";
+    }
+
+    // The watch may have been edited or removed while the scan ran
+    const current = await this.ctx.storage.get<WatchedSite>(
+      `watch:${watch.id}`
+    );
+    if (current) {
+      await this.ctx.storage.put(`watch:${watch.id}`, {
+        ...updated,
+        url: current.url,
+        intervalMinutes: current.intervalMinutes,
+        enabled: current.enabled,
+        options: current.options,
+      });
+    }
+  }
+
+  private async runJob(job: ScanJob): Promise<void> {
+    await this.ctx.storage.put("job", {
+      ...job,
+      status: "running",
+      updatedAt: Date.now(),
+    });
+
+    const credentials = this.jobCredentials;
+    this.jobCredentials = {};
+
+    try {
+      const missing = journeyCredentials(job.options?.journey).filter(
+        (name) => credentials[name] === undefined
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          "Journey credentials were lost before the scan started; start it again"
+        );
+      }
+
+      const result = await scanWebsite(
+        job.url,
+        this.env,
+        job.options,
+        (progress) => this.appendJobEvent(progress),
+        credentials
+      );
+
+      // Store with the rest of the history so it shows up in diffs and alerts
+      const global = this.env.SCRIPT_ANALYZER.get(
+        this.env.SCRIPT_ANALYZER.idFromName("global")
+      );
+      const stored = await global.fetch("http://internal/store", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+      if (!stored.ok) {
+        throw new Error("The scan finished but its result could not be stored");
+      }
+      const { id } = await stored.json<{ id: string }>();
+
+      await this.finishJob(job, {
+        type: "done",
+        analysisId: id,
+        url: result.url,
+        grade: result.summary?.grade,
+      });
+    } catch (error) {
+      console.error("[Job] Scan failed", job.url, error);
+      await this.finishJob(job, {
+        type: "error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  // Helper: Record the terminal event and final job status
+  private async finishJob(
+    job: ScanJob,
+    outcome: ScanDone | { type: "error"; message: string }
+  ): Promise<void> {
+    await this.appendJobEvent(outcome);
+    await this.ctx.storage.put("job", {
+      ...job,
+      status: outcome.type,
+      updatedAt: Date.now(),
+      analysisId: outcome.type === "done" ? outcome.analysisId : undefined,
+      error: outcome.type === "error" ? outcome.message : undefined,
+    });
+  }
+
+  // Helper: Append an event to the job's log under the next sequence number
+  private async appendJobEvent(
+    event:
+      | { type: "queued" }
+      | ScanProgress
+      | ScanDone
+      | { type: "error"; message: string }
+  ): Promise<void> {
+    const seq = ((await this.ctx.storage.get<number>("eventSeq")) || 0) + 1;
+    await this.ctx.storage.put({
+      eventSeq: seq,
+      [`event:${String(seq).padStart(6, "0")}`]: {
+        ...event,
+        seq,
+        timestamp: Date.now(),
+      },
+    });
+  }
 
-      // Store in Durable Object storage
-      await this.ctx.storage.put(key, data);
+  private async scheduleNextAlarm(): Promise<void> {
+    const watches = await this.ctx.storage.list<WatchedSite>({
+      prefix: "watch:",
+    });
+    const next = Array.from(watches.values())
+      .filter((watch) => watch.enabled)
+      .reduce<number | undefined>(
+        (earliest, watch) =>
+          earliest === undefined
+            ? watch.nextRunAt
+            : Math.min(earliest, watch.nextRunAt),
+        undefined
+      );
+
+    if (next === undefined) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(Math.max(next, Date.now() + 1000));
+    }
+  }
+
+  // Helper: Key of one stored chunk of a result field
+  private partKey(key: string, field: ChunkedField, index: number): string {
+    return `part:${key}:${field}:${String(index).padStart(4, "0")}`;
+  }
+
+  // Helper: Split a list into runs whose JSON fits in MAX_CHUNK_BYTES
+  private chunkBySize<T>(items: T[]): T[][] {
+    const encoder = new TextEncoder();
+    const chunks: T[][] = [];
+    let current: T[] = [];
+    let size = 0;
+
+    for (const item of items) {
+      const itemSize = encoder.encode(JSON.stringify(item)).length + 1;
+      if (current.length > 0 && size + itemSize > MAX_CHUNK_BYTES) {
+        chunks.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(item);
+      size += itemSize;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+  }
+
+  // Helper: A result without the fields stored in chunks
+  private withoutChunkedFields(data: AnalysisResult): AnalysisResult {
+    const stripped = { ...data };
+    for (const field of CHUNKED_FIELDS) delete stripped[field];
+    return stripped;
+  }
+
+  // Helper: Store a result and index it by host for diffing
+  private async saveAnalysis(
+    data: AnalysisResult
+  ): Promise<{ id: string; key: string; scannedAt: number }> {
+    const scannedAt = Date.now();
+    const key = `analysis:${data.url}:${scannedAt}`;
+    const host = new URL(data.url).hostname;
+    const id = `${host}:${scannedAt}`;
+
+    // Chunks go first so the indexes never point at a partial result
+    const parts: Record<string, unknown> = {};
+    const storedParts: Record<string, number> = {};
+    for (const field of CHUNKED_FIELDS) {
+      const items: unknown[] | undefined = data[field];
+      if (!items?.length) continue;
+      const chunks = this.chunkBySize(items);
+      chunks.forEach((chunk, index) => {
+        parts[this.partKey(key, field, index)] = chunk;
+      });
+      storedParts[field] = chunks.length;
+    }
+    const partEntries = Object.entries(parts);
+    for (let i = 0; i < partEntries.length; i += MAX_KEYS_PER_CALL) {
+      await this.ctx.storage.put(
+        Object.fromEntries(partEntries.slice(i, i + MAX_KEYS_PER_CALL))
+      );
+    }
+
+    // site: indexes scans per host, scan: across all hosts by time
+    await this.ctx.storage.put({
+      [key]: {
+        ...this.withoutChunkedFields(data),
+        id,
+        scannedAt,
+        storedParts: partEntries.length > 0 ? storedParts : undefined,
+      },
+      [`site:${host}:${scannedAt}`]: key,
+      [`scan:${scannedAt}:${host}`]: key,
+    });
+
+    return { id, key, scannedAt };
+  }
+
+  // Helper: Put a stored result's chunked fields back together
+  private async loadParts(
+    key: string,
+    stored: AnalysisResult
+  ): Promise<AnalysisResult> {
+    const { storedParts, ...data } = stored;
+    if (!storedParts) return stored;
+
+    for (const field of CHUNKED_FIELDS) {
+      const count = storedParts[field] || 0;
+      const partKeys = Array.from({ length: count }, (_, index) =>
+        this.partKey(key, field, index)
+      );
+      const items: unknown[] = [];
+      for (let i = 0; i < partKeys.length; i += MAX_KEYS_PER_CALL) {
+        const batch = partKeys.slice(i, i + MAX_KEYS_PER_CALL);
+        const chunks = await this.ctx.storage.get<unknown[]>(batch);
+        for (const partKey of batch) items.push(...(chunks.get(partKey) || []));
+      }
+      if (count > 0) Object.assign(data, { [field]: items });
+    }
+    return data;
+  }
+
+  // Helper: Full stored results by key, chunked fields included
+  private async loadAnalyses(
+    keys: string[]
+  ): Promise<Map<string, AnalysisResult>> {
+    const stored = await this.ctx.storage.get<AnalysisResult>(keys);
+    for (const [key, analysis] of stored) {
+      stored.set(key, await this.loadParts(key, analysis));
+    }
+    return stored;
+  }
+
+  // Helper: The most recent stored scans of a host, newest first
+  private async latestScans(
+    host: string,
+    limit: number
+  ): Promise<AnalysisResult[]> {
+    const index = await this.ctx.storage.list<string>({
+      prefix: `site:${host}:`,
+      reverse: true,
+      limit,
+    });
+    const scans = await this.loadAnalyses(Array.from(index.values()));
+    return Array.from(index.values())
+      .map((key) => scans.get(key))
+      .filter((scan): scan is AnalysisResult => scan !== undefined);
+  }
+
+  // Helper: Diff of the two most recent scans of a host, if there are two
+  private async diffLatest(host: string): Promise<AnalysisDiff | undefined> {
+    const [after, before] = await this.latestScans(host, 2);
+    return before && after ? diffAnalyses(before, after) : undefined;
+  }
+
+  // Alert every matching webhook about what changed since the previous scan
+  private async dispatchAlerts(current: AnalysisResult): Promise<void> {
+    try {
+      const host = new URL(current.url).hostname;
+      // The current scan is already stored, so the previous one is second
+      const [, previous] = await this.latestScans(host, 2);
+      const alerts = detectAlerts(previous, current);
+      if (alerts.length === 0) return;
+
+      const webhooks = await this.ctx.storage.list<WebhookTarget>({
+        prefix: "webhook:",
+      });
+
+      for (const target of webhooks.values()) {
+        if (!target.enabled) continue;
+        if (target.hosts.length > 0 && !target.hosts.includes(host)) continue;
+
+        const matching = alerts.filter((alert) =>
+          target.events.includes(alert.type)
+        );
+        if (matching.length === 0) continue;
+
+        await this.logDelivery(await deliverWebhook(target, host, matching));
+      }
+    } catch (error) {
+      console.error("[Webhooks] Alert dispatch failed", error);
+    }
+  }
+
+  // Helper: Append to a webhook's delivery log, dropping the oldest entries
+  private async logDelivery(delivery: WebhookDelivery): Promise<void> {
+    const prefix = `delivery:${delivery.webhookId}:`;
+    await this.ctx.storage.put(`${prefix}${delivery.createdAt}`, delivery);
+
+    const log = await this.ctx.storage.list({ prefix, reverse: true });
+    const stale = Array.from(log.keys()).slice(MAX_DELIVERIES_PER_WEBHOOK);
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(stale);
+    }
+  }
+
+  // Helper: Webhook as returned by the API, without its secret
+  private publicWebhook(target: WebhookTarget) {
+    const { secret, ...rest } = target;
+    return { ...rest, secret: `${secret.slice(0, 4)}…` };
+  }
+
+  private async listWebhooks(): Promise<Response> {
+    try {
+      const webhooks = await this.ctx.storage.list<WebhookTarget>({
+        prefix: "webhook:",
+      });
 
       return new Response(
         JSON.stringify({
           success: true,
-          key: key,
+          webhooks: Array.from(webhooks.values()).map((target) =>
+            this.publicWebhook(target)
+          ),
         }),
         {
           headers: { "Content-Type": "application/json" },
@@ -54,7 +536,7 @@ export class ScriptAnalyzer extends DurableObject {
     } catch (error) {
       return new Response(
         JSON.stringify({
-          error: "Failed to store analysis",
+          error: "Failed to list webhooks",
         }),
         {
           status: 500,
@@ -64,26 +546,810 @@ export class ScriptAnalyzer extends DurableObject {
     }
   }
 
-  private async retrieveAnalyses(): Promise<Response> {
+  private async createWebhook(request: Request): Promise<Response> {
     try {
-      // Get all stored analyses
-      const analyses = await this.ctx.storage.list({ prefix: "analysis:" });
-      const results = Array.from(analyses.values());
+      const { url, format, secret, events, hosts } = (await request.json()) as {
+        url: string;
+        format?: WebhookTarget["format"];
+        secret?: string;
+        events?: AlertEvent["type"][];
+        hosts?: string[];
+      };
+
+      const target: WebhookTarget = {
+        id: crypto.randomUUID(),
+        url,
+        format: format === "slack" ? "slack" : "generic",
+        secret: secret || crypto.randomUUID().replace(/-/g, ""),
+        events:
+          events && events.length > 0
+            ? events
+            : ["new_script", "risk_escalated", "blocked"],
+        hosts: hosts || [],
+        enabled: true,
+        createdAt: Date.now(),
+      };
+
+      await this.ctx.storage.put(`webhook:${target.id}`, target);
 
+      // The only time the full secret is returned
       return new Response(
         JSON.stringify({
           success: true,
-          count: results.length,
-          analyses: results,
+          webhook: target,
         }),
         {
+          status: 201,
           headers: { "Content-Type": "application/json" },
         }
       );
     } catch (error) {
       return new Response(
         JSON.stringify({
-          error: "Failed to retrieve analyses",
+          error: "Failed to create webhook",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async deleteWebhook(request: Request): Promise<Response> {
+    try {
+      const id = new URL(request.url).searchParams.get("id");
+      const deleted = await this.ctx.storage.delete(`webhook:${id}`);
+
+      const log = await this.ctx.storage.list({ prefix: `delivery:${id}:` });
+      if (log.size > 0) {
+        await this.ctx.storage.delete(Array.from(log.keys()));
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: deleted,
+        }),
+        {
+          status: deleted ? 200 : 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to delete webhook",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async listDeliveries(request: Request): Promise<Response> {
+    try {
+      const id = new URL(request.url).searchParams.get("id");
+      const log = await this.ctx.storage.list<WebhookDelivery>({
+        prefix: `delivery:${id}:`,
+        reverse: true,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          deliveries: Array.from(log.values()),
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to list deliveries",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async testWebhook(request: Request): Promise<Response> {
+    try {
+      const id = new URL(request.url).searchParams.get("id");
+      const target = await this.ctx.storage.get<WebhookTarget>(
+        `webhook:${id}`
+      );
+
+      if (!target) {
+        return new Response(
+          JSON.stringify({
+            error: "Webhook not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const delivery = await deliverWebhook(target, "example.com", [
+        {
+          type: "new_script",
+          scriptUrl: "https://example.com/test.js",
+          scriptName: "Test Script",
+          riskLevel: "LOW",
+          recommendation: "ALLOW",
+          message: "This is a test alert from Script Sentinel",
+        },
+      ]);
+      await this.logDelivery(delivery);
+
+      return new Response(
+        JSON.stringify({
+          success: delivery.status === "delivered",
+          delivery,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to test webhook",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async listWatches(): Promise<Response> {
+    try {
+      const watches = await this.ctx.storage.list<WatchedSite>({
+        prefix: "watch:",
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          watches: Array.from(watches.values()),
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to list watched sites",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async createWatch(request: Request): Promise<Response> {
+    try {
+      const { url, intervalMinutes, options } = (await request.json()) as {
+        url: string;
+        intervalMinutes?: number;
+        options?: ScanOptions;
+      };
+
+      const now = Date.now();
+      const watch: WatchedSite = {
+        id: crypto.randomUUID(),
+        url,
+        intervalMinutes: Math.max(
+          intervalMinutes || 24 * 60,
+          MIN_WATCH_INTERVAL_MINUTES
+        ),
+        enabled: true,
+        options,
+        createdAt: now,
+        // First run happens on the next alarm
+        nextRunAt: now,
+      };
+
+      await this.ctx.storage.put(`watch:${watch.id}`, watch);
+      await this.scheduleNextAlarm();
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          watch,
+        }),
+        {
+          status: 201,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to create watch",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async updateWatch(request: Request): Promise<Response> {
+    try {
+      const id = new URL(request.url).searchParams.get("id");
+      const watch = await this.ctx.storage.get<WatchedSite>(`watch:${id}`);
+
+      if (!watch) {
+        return new Response(
+          JSON.stringify({
+            error: "Watch not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const changes = (await request.json()) as Partial<
+        Pick<WatchedSite, "url" | "intervalMinutes" | "enabled" | "options">
+      >;
+
+      const updated: WatchedSite = { ...watch };
+      if (changes.url !== undefined) updated.url = changes.url;
+      if (changes.enabled !== undefined) updated.enabled = changes.enabled;
+      if (changes.options !== undefined) {
+        updated.options = { ...updated.options, ...changes.options };
+      }
+      if (changes.intervalMinutes !== undefined) {
+        updated.intervalMinutes = Math.max(
+          changes.intervalMinutes,
+          MIN_WATCH_INTERVAL_MINUTES
+        );
+        updated.nextRunAt =
+          (watch.lastRunAt || Date.now()) + updated.intervalMinutes * 60_000;
+      }
+
+      await this.ctx.storage.put(`watch:${updated.id}`, updated);
+      await this.scheduleNextAlarm();
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          watch: updated,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to update watch",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async deleteWatch(request: Request): Promise<Response> {
+    try {
+      const id = new URL(request.url).searchParams.get("id");
+      const deleted = await this.ctx.storage.delete(`watch:${id}`);
+      await this.scheduleNextAlarm();
+
+      return new Response(
+        JSON.stringify({
+          success: deleted,
+        }),
+        {
+          status: deleted ? 200 : 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to delete watch",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async recordAiTelemetry(request: Request): Promise<Response> {
+    try {
+      const counts = (await request.json()) as AiTelemetry;
+      const totals =
+        (await this.ctx.storage.get<AiTelemetry>("telemetry:ai")) ||
+        ({
+          calls: 0,
+          attempts: 0,
+          validFirstTry: 0,
+          repaired: 0,
+          retried: 0,
+          fallbacks: 0,
+          since: Date.now(),
+        } satisfies AiTelemetry);
+
+      for (const key of [
+        "calls",
+        "attempts",
+        "validFirstTry",
+        "repaired",
+        "retried",
+        "fallbacks",
+      ] as const) {
+        totals[key] += Number(counts[key]) || 0;
+      }
+      await this.ctx.storage.put("telemetry:ai", totals);
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to record telemetry",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async getAiTelemetry(): Promise<Response> {
+    const totals = await this.ctx.storage.get<AiTelemetry>("telemetry:ai");
+
+    return new Response(
+      JSON.stringify({
+        telemetry: totals || null,
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  private async startJob(request: Request): Promise<Response> {
+    try {
+      const { id, url, options, credentials } = (await request.json()) as {
+        id: string;
+        url: string;
+        options?: ScanOptions;
+        credentials?: Record<string, string>;
+      };
+
+      if (await this.ctx.storage.get<ScanJob>("job")) {
+        return new Response(
+          JSON.stringify({
+            error: "Job already exists",
+          }),
+          {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const now = Date.now();
+      const job: ScanJob = {
+        id,
+        url,
+        options,
+        status: "queued",
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.ctx.storage.put("job", job);
+      this.jobCredentials = credentials || {};
+      await this.appendJobEvent({ type: "queued" });
+
+      // The scan runs in the alarm so it outlives the request that started it
+      await this.ctx.storage.setAlarm(now);
+
+      return new Response(JSON.stringify(job), {
+        status: 202,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to start job",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async getJob(): Promise<Response> {
+    const job = await this.ctx.storage.get<ScanJob>("job");
+
+    if (!job) {
+      return new Response(
+        JSON.stringify({
+          error: "Job not found",
+        }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(job), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Server-Sent Events replay of the job log, then live events until the
+  // job finishes. Last-Event-ID lets EventSource resume after a reconnect.
+  private async streamJobEvents(request: Request): Promise<Response> {
+    if (!(await this.ctx.storage.get<ScanJob>("job"))) {
+      return new Response(
+        JSON.stringify({
+          error: "Job not found",
+        }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const url = new URL(request.url);
+    let lastSeq =
+      Number(
+        request.headers.get("Last-Event-ID") || url.searchParams.get("after")
+      ) || 0;
+
+    const { readable, writable } = new TransformStream<Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+
+    const pump = async () => {
+      const startedAt = Date.now();
+      let lastWrite = startedAt;
+
+      try {
+        while (Date.now() - startedAt < MAX_JOB_STREAM_MS) {
+          const events = await this.ctx.storage.list<ScanEvent>({
+            prefix: "event:",
+            start: `event:${String(lastSeq + 1).padStart(6, "0")}`,
+          });
+
+          for (const event of events.values()) {
+            await writer.write(
+              encoder.encode(
+                `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+              )
+            );
+            lastSeq = event.seq;
+            lastWrite = Date.now();
+
+            if (event.type === "done" || event.type === "error") {
+              await writer.close();
+              return;
+            }
+          }
+
+          if (Date.now() - lastWrite >= JOB_HEARTBEAT_MS) {
+            await writer.write(encoder.encode(": keep-alive\n\n"));
+            lastWrite = Date.now();
+          }
+
+          await new Promise((resolve) =>
+            setTimeout(resolve, JOB_EVENT_POLL_MS)
+          );
+        }
+        await writer.close();
+      } catch {
+        // The client went away
+      }
+    };
+    this.ctx.waitUntil(pump());
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  private async storeAnalysis(request: Request): Promise<Response> {
+    try {
+      const data = (await request.json()) as AnalysisResult;
+      const { id, key, scannedAt } = await this.saveAnalysis(data);
+
+      // Don't hold up the analyze response for webhook retries
+      this.ctx.waitUntil(this.dispatchAlerts(data));
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          key: key,
+          id,
+          scannedAt,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to store analysis",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async listAnalyses(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const host = url.searchParams.get("host");
+      const from = this.parseTime(url.searchParams.get("from"));
+      const to = this.parseTime(url.searchParams.get("to"));
+      const cursor = url.searchParams.get("cursor");
+      const limit = Math.min(
+        Math.max(Number(url.searchParams.get("limit")) || 20, 1),
+        MAX_HISTORY_PAGE_SIZE
+      );
+
+      // Newest first; the cursor is the last index key of the previous page
+      const prefix = host ? `site:${host}:` : "scan:";
+      const index = await this.ctx.storage.list<string>({
+        prefix,
+        reverse: true,
+        start: from !== undefined ? `${prefix}${from}` : undefined,
+        end: cursor || (to !== undefined ? `${prefix}${to + 1}` : undefined),
+        limit: limit + 1,
+      });
+
+      const entries = Array.from(index.entries()).slice(0, limit);
+      const scans = await this.ctx.storage.get<AnalysisResult>(
+        entries.map(([, key]) => key)
+      );
+
+      const items: AnalysisListItem[] = [];
+      for (const [, key] of entries) {
+        const scan = scans.get(key);
+        if (!scan) continue;
+
+        const riskCounts = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+        for (const analysis of scan.analyses || []) {
+          riskCounts[analysis.riskLevel]++;
+        }
+
+        items.push({
+          id: scan.id || "",
+          url: scan.url,
+          host: new URL(scan.url).hostname,
+          scannedAt: scan.scannedAt || 0,
+          totalScripts: scan.totalScripts,
+          thirdPartyScripts: scan.thirdPartyScripts,
+          riskCounts,
+          grade: scan.summary?.grade,
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          analyses: items,
+          nextCursor:
+            index.size > limit ? entries[entries.length - 1][0] : null,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to list analyses",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async getAnalysis(request: Request): Promise<Response> {
+    try {
+      // Analysis ids are "<host>:<scannedAt>"
+      const id = new URL(request.url).searchParams.get("id") || "";
+      const key = await this.ctx.storage.get<string>(`site:${id}`);
+      const analysis = key
+        ? (await this.loadAnalyses([key])).get(key)
+        : undefined;
+
+      if (!analysis) {
+        return new Response(
+          JSON.stringify({
+            error: "Analysis not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify(analysis), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to get analysis",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  private async retrieveAnalyses(): Promise<Response> {
+    try {
+      // Get all stored analyses
+      const analyses = await this.ctx.storage.list<AnalysisResult>({
+        prefix: "analysis:",
+      });
+      const results = await Promise.all(
+        Array.from(analyses, ([key, analysis]) =>
+          this.loadParts(key, analysis)
+        )
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          count: results.length,
+          analyses: results,
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to retrieve analyses",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+  }
+
+  // Helper: Accept either a millisecond timestamp or a date string
+  private parseTime(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const asNumber = Number(value);
+    if (!Number.isNaN(asNumber)) return asNumber;
+    const asDate = Date.parse(value);
+    return Number.isNaN(asDate) ? undefined : asDate;
+  }
+
+  private async diffScans(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const host = url.searchParams.get("host");
+      const from = this.parseTime(url.searchParams.get("from"));
+      const to = this.parseTime(url.searchParams.get("to"));
+
+      if (!host) {
+        return new Response(
+          JSON.stringify({
+            error: "Host required",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      // Index keys sort by scan time
+      const index = await this.ctx.storage.list<string>({
+        prefix: `site:${host}:`,
+      });
+      const scans = Array.from(index.entries()).map(([indexKey, key]) => ({
+        scannedAt: Number(indexKey.slice(indexKey.lastIndexOf(":") + 1)),
+        key,
+      }));
+
+      // "to" defaults to the latest scan, "from" to the one before it
+      const toScan = [...scans]
+        .reverse()
+        .find((scan) => to === undefined || scan.scannedAt <= to);
+      const fromScan = [...scans]
+        .reverse()
+        .find((scan) =>
+          from === undefined
+            ? toScan !== undefined && scan.scannedAt < toScan.scannedAt
+            : scan.scannedAt <= from
+        );
+
+      if (!toScan || !fromScan) {
+        return new Response(
+          JSON.stringify({
+            error: "Not enough scans to compare",
+            scans: scans.map((scan) => scan.scannedAt),
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const stored = await this.loadAnalyses([fromScan.key, toScan.key]);
+      const before = stored.get(fromScan.key);
+      const after = stored.get(toScan.key);
+
+      if (!before || !after) {
+        return new Response(
+          JSON.stringify({
+            error: "Scan not found",
+          }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          diff: diffAnalyses(before, after),
+        }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: "Failed to diff analyses",
         }),
         {
           status: 500,
@@ -103,7 +1369,8 @@ export class ScriptAnalyzer extends DurableObject {
       const session: ChatSession = {
         sessionId,
         messages: [],
-        analysisData,
+        // The chat context never uses the chunked fields
+        analysisData: this.withoutChunkedFields(analysisData),
         createdAt: Date.now(),
         lastActive: Date.now(),
       };
@@ -1,10 +1,96 @@
 import { useEffect, useRef, useState } from "react";
 import "./App.css";
-import { API_BASE_URL } from "./constants";
+import { API_BASE_URL, LAST_ANALYSIS_KEY } from "./constants";
+
+interface ScriptInitiator {
+  type: "parser" | "script" | "other";
+  url?: string;
+}
+
+interface ScriptElementAttributes {
+  integrity?: string;
+  crossorigin?: string;
+  async: boolean;
+  defer: boolean;
+}
 
 interface ScriptInfo {
   url: string;
   timestamp: number;
+  initiator?: ScriptInitiator;
+  element?: ScriptElementAttributes;
+}
+
+interface FetchCall {
+  url: string;
+  method: string;
+  timestamp: number;
+  type?: "fetch" | "xhr" | "beacon" | "websocket";
+}
+
+type OutboundKind =
+  | "fetch"
+  | "xhr"
+  | "beacon"
+  | "pixel"
+  | "websocket"
+  | "form"
+  | "other";
+
+type IdentifierKind = "email" | "cookie" | "user_id" | "click_id" | "device_id";
+
+interface OutboundRequest {
+  kind: OutboundKind;
+  method: string;
+  host: string;
+  path: string;
+  initiator?: string;
+  page: string;
+  payloadBytes: number;
+  identifiers: IdentifierKind[];
+  thirdParty: boolean;
+  timestamp: number;
+}
+
+interface DataDestination {
+  host: string;
+  kinds: OutboundKind[];
+  requests: number;
+  payloadBytes: number;
+  identifiers: IdentifierKind[];
+}
+
+interface ScriptBehavior {
+  cookieReads: number;
+  cookieWrites: number;
+  localStorageWrites: number;
+  fetchCalls: FetchCall[];
+  fetchCallCount?: number;
+  destinations?: DataDestination[];
+}
+
+interface StaticFinding {
+  type: string;
+  severity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+  description: string;
+  evidence: string;
+}
+
+interface StaticAnalysis {
+  size: number;
+  truncated: boolean;
+  findings: StaticFinding[];
+  endpoints: string[];
+}
+
+interface SriFinding {
+  status: "present" | "missing" | "mismatch" | "not_applicable" | "unknown";
+  isCdn: boolean;
+  integrity?: string;
+  crossorigin?: string;
+  computedIntegrity?: string;
+  suggestedAttributes?: string;
+  message: string;
 }
 
 interface ScriptAnalysis {
@@ -17,6 +103,175 @@ interface ScriptAnalysis {
   reasoning: string;
   recommendation: "ALLOW" | "MONITOR" | "BLOCK";
   userFriendlyExplanation: string;
+  behavior?: ScriptBehavior;
+  staticAnalysis?: StaticAnalysis;
+  sri?: SriFinding;
+  classifiedWith?: string;
+  cacheHit?: boolean;
+  cacheOverride?: boolean;
+  signature?: SignatureMatch;
+  riskScore?: RiskScore;
+  consentPurpose?: ConsentPurpose;
+  pages?: string[];
+  journeyStep?: number;
+  fieldAccess?: FieldAccessFinding[];
+  fingerprinting?: FingerprintReport;
+}
+
+interface FingerprintReport {
+  techniques: {
+    technique:
+      | "canvas"
+      | "webgl"
+      | "audio"
+      | "fonts"
+      | "plugins"
+      | "hardware"
+      | "battery"
+      | "media_devices";
+    apis: string[];
+    calls: number;
+    evidence: string;
+  }[];
+  score: number;
+}
+
+interface FieldAccessFinding {
+  type: "field_listener" | "field_read" | "canary_exfiltration";
+  severity: "CRITICAL";
+  field:
+    | "card_number"
+    | "card_cvc"
+    | "card_expiry"
+    | "password"
+    | "email"
+    | "text";
+  description: string;
+  evidence: string;
+  page?: string;
+}
+
+type ConsentPurpose =
+  | "necessary"
+  | "functional"
+  | "analytics"
+  | "advertising"
+  | "social"
+  | "unknown";
+
+interface JourneyStepResult {
+  step: number;
+  description: string;
+  status: "ok" | "failed" | "skipped";
+  error?: string;
+  url?: string;
+  newScripts: string[];
+  runtimeEvents: number;
+}
+
+interface CrawledPage {
+  url: string;
+  depth: number;
+  status: "scanned" | "failed";
+  scripts: number;
+  error?: string;
+}
+
+interface ConsentDiff {
+  afterConsentOnly: string[];
+  regardless: string[];
+  beforeConsentOnly: string[];
+}
+
+interface ConsentComparison {
+  consentGiven: boolean;
+  method: "banner" | "cookie";
+  acceptedWith?: string;
+  scripts: ConsentDiff;
+  cookies: ConsentDiff;
+  destinations: ConsentDiff;
+}
+
+interface ComplianceReport {
+  cmp: {
+    detected: boolean;
+    name?: string;
+    tcf: boolean;
+    gpp: boolean;
+    usp: boolean;
+  };
+  cookies: {
+    name: string;
+    domain: string;
+    thirdParty: boolean;
+    purpose: ConsentPurpose;
+    expires?: number;
+    scriptUrl?: string;
+  }[];
+  findings: {
+    id: string;
+    severity: "LOW" | "MEDIUM" | "HIGH";
+    regulations: ("GDPR" | "CCPA")[];
+    title: string;
+    detail: string;
+    scriptUrl?: string;
+    cookie?: string;
+  }[];
+}
+
+interface ScoreFactor {
+  id: string;
+  label: string;
+  points: number;
+  detail?: string;
+}
+
+interface RiskScore {
+  score: number;
+  factors: ScoreFactor[];
+}
+
+interface SignatureMatch {
+  id: string;
+  vendor: string;
+  category: string;
+  privacyPolicy?: string;
+  version: string;
+}
+
+interface SkippedScript {
+  url: string;
+  reason: "script_limit" | "ai_budget" | "ai_error";
+  message: string;
+}
+
+interface InlineScript {
+  hash: string;
+  kind: "inline" | "handler";
+  content: string;
+  length: number;
+  contentOmitted?: boolean;
+  dynamic: boolean;
+  injectedBy?: string;
+  staticAnalysis?: StaticAnalysis;
+}
+
+interface ScriptInjection {
+  script: string;
+  injectedBy?: string;
+  timestamp: number;
+}
+
+interface DependencyNode {
+  id: string;
+  type: "page" | "script" | "inline";
+  host: string;
+}
+
+interface DependencyGraph {
+  root: string;
+  nodes: DependencyNode[];
+  edges: { from: string; to: string }[];
 }
 
 interface AnalysisResult {
@@ -25,7 +280,80 @@ interface AnalysisResult {
   totalScripts: number;
   thirdPartyScripts: number;
   scripts: ScriptInfo[];
+  inlineScripts?: InlineScript[];
+  injections?: ScriptInjection[];
+  dependencyGraph?: DependencyGraph;
   analyses?: ScriptAnalysis[];
+  skippedScripts?: SkippedScript[];
+  summary?: SiteSummary;
+  compliance?: ComplianceReport;
+  consentComparison?: ConsentComparison;
+  pages?: CrawledPage[];
+  journey?: JourneyStepResult[];
+  network?: OutboundRequest[];
+  networkTotal?: number;
+  networkTruncated?: boolean;
+  id?: string;
+  scannedAt?: number;
+}
+
+interface SiteSummary {
+  grade: "A" | "B" | "C" | "D" | "F";
+  gradeReason: string;
+  riskCounts: Record<"LOW" | "MEDIUM" | "HIGH" | "CRITICAL", number>;
+  recommendationCounts: Record<"ALLOW" | "MONITOR" | "BLOCK", number>;
+  topConcerns: {
+    scriptUrl: string;
+    scriptName: string;
+    riskLevel: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+    recommendation: "ALLOW" | "MONITOR" | "BLOCK";
+    score?: number;
+    reason: string;
+  }[];
+  dataCategories: { category: string; scripts: number }[];
+  destinations: { organization: string; hosts: string[]; scripts: number }[];
+  executiveSummary?: string;
+  executiveSummarySource?: "ai" | "generated";
+  generatedAt: number;
+}
+
+interface AnalysisListItem {
+  id: string;
+  url: string;
+  host: string;
+  scannedAt: number;
+  totalScripts: number;
+  thirdPartyScripts: number;
+  riskCounts: Record<"LOW" | "MEDIUM" | "HIGH" | "CRITICAL", number>;
+  grade?: SiteSummary["grade"];
+}
+
+interface ScriptChange {
+  scriptUrl: string;
+  scriptName: string;
+  from: string;
+  to: string;
+}
+
+interface AnalysisDiff {
+  url: string;
+  fromScannedAt?: number;
+  toScannedAt?: number;
+  added: string[];
+  removed: string[];
+  riskChanged: ScriptChange[];
+  contentChanged: ScriptChange[];
+  inlineAdded: string[];
+  inlineRemoved: string[];
+}
+
+interface CspPolicy {
+  directives: Record<string, string[]>;
+  enforce: string;
+  reportOnly: string;
+  excluded: { source: string; reason: string }[];
+  notes: string[];
+  nonceGuidance: string;
 }
 
 interface ChatMessage {
@@ -34,20 +362,161 @@ interface ChatMessage {
   timestamp: number;
 }
 
+// Progress event streamed by an async scan job
+interface ScanEvent {
+  seq: number;
+  type:
+    | "queued"
+    | "page_loaded"
+    | "journey_step"
+    | "scripts_found"
+    | "script_analyzed"
+    | "done"
+    | "error";
+  timestamp: number;
+  url?: string;
+  pagesLoaded?: number;
+  step?: JourneyStepResult;
+  partial?: AnalysisResult;
+  toAnalyze?: number;
+  analysis?: ScriptAnalysis;
+  analyzed?: number;
+  total?: number;
+  analysisId?: string;
+  grade?: SiteSummary["grade"];
+  message?: string;
+}
+
+const SCAN_EVENT_TYPES: ScanEvent["type"][] = [
+  "queued",
+  "page_loaded",
+  "journey_step",
+  "scripts_found",
+  "script_analyzed",
+  "done",
+  "error",
+];
+
+// Follow a scan job's event stream until it finishes
+function followScan(
+  jobId: string,
+  onEvent: (event: ScanEvent) => void
+): Promise<AnalysisResult> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(
+      `${API_BASE_URL}/api/v1/scans/${encodeURIComponent(jobId)}/events`
+    );
+
+    const handle = (message: MessageEvent) => {
+      const event: ScanEvent = JSON.parse(message.data);
+      onEvent(event);
+
+      // The result is too large for an event; fetch the stored copy
+      if (event.type === "done" && event.analysisId) {
+        source.close();
+        fetch(
+          `${API_BASE_URL}/api/v1/analyses/${encodeURIComponent(event.analysisId)}`
+        )
+          .then((response) => {
+            if (!response.ok) throw new Error("Could not load analysis");
+            return response.json() as Promise<AnalysisResult>;
+          })
+          .then(resolve, reject);
+      } else if (event.type === "error") {
+        source.close();
+        reject(new Error(event.message || "Analysis failed"));
+      }
+    };
+
+    for (const type of SCAN_EVENT_TYPES) {
+      source.addEventListener(type, handle);
+    }
+
+    // EventSource reconnects by itself; only give up once it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost connection to the scan"));
+      }
+    };
+  });
+}
+
+function DependencyTree({
+  graph,
+  analyses,
+  getRiskColor,
+}: {
+  graph: DependencyGraph;
+  analyses: ScriptAnalysis[];
+  getRiskColor: (level: string) => string;
+}) {
+  const children = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    children.set(edge.from, [...(children.get(edge.from) || []), edge.to]);
+  }
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const risks = new Map(analyses.map((a) => [a.scriptUrl, a.riskLevel]));
+
+  const renderNode = (id: string, visited: Set<string>) => {
+    const node = nodes.get(id);
+    const risk = risks.get(id);
+    const next = new Set(visited).add(id);
+    const kids = (children.get(id) || []).filter((kid) => !visited.has(kid));
+
+    return (
+      <li key={id}>
+        <span
+          className={`graph-node ${node?.type || "script"}`}
+          style={risk ? { borderColor: getRiskColor(risk) } : undefined}
+          title={id}
+        >
+          {node?.type === "inline"
+            ? `inline ${id.slice(0, 18)}…`
+            : node?.host || id}
+          {risk && <span className="graph-risk"> {risk}</span>}
+        </span>
+        {kids.length > 0 && (
+          <ul>{kids.map((kid) => renderNode(kid, next))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return <ul className="dependency-tree">{renderNode(graph.root, new Set())}</ul>;
+}
+
 function App() {
   const [url, setUrl] = useState<string>("");
+  // Comma-separated domains we operate (CDNs, asset hosts)
+  const [ownDomains, setOwnDomains] = useState<string>("");
+  const [compareConsent, setCompareConsent] = useState(false);
+  const [crawl, setCrawl] = useState(false);
   const [loading, setLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Changes since the previous scan of this site
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+
+  // CSP state
+  const [csp, setCsp] = useState<CspPolicy | null>(null);
+  const [cspMode, setCspMode] = useState<"enforce" | "reportOnly">(
+    "reportOnly"
+  );
+  const [cspLoading, setCspLoading] = useState<boolean>(false);
+
   // Chat state
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState<string>("");
   const [chatLoading, setChatLoading] = useState<boolean>(false);
-  const [sessionId] = useState<string>(
+  const [sessionId, setSessionId] = useState<string>(
     () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
   );
 
+  // History sidebar state
+  const [history, setHistory] = useState<AnalysisListItem[]>([]);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
@@ -58,6 +527,100 @@ function App() {
     }
   }, [chatMessages, chatLoading]);
 
+  const loadHistory = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/analyses?limit=20`);
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.analyses);
+      }
+    } catch {
+      // History is optional; the analyzer still works without it
+    }
+  };
+
+  // Compare a scan against the one before it, if there is one
+  const loadDiff = async (data: AnalysisResult) => {
+    try {
+      const params = data.scannedAt ? `?to=${data.scannedAt}` : "";
+      const diffResponse = await fetch(
+        `${API_BASE_URL}/api/v1/sites/${
+          new URL(data.url).hostname
+        }/diff${params}`
+      );
+      if (diffResponse.ok) {
+        const diffData = await diffResponse.json();
+        setDiff(diffData.diff);
+      }
+    } catch {
+      // A missing diff shouldn't hide the report
+    }
+  };
+
+  // Chat sessions are tied to stored analyses so they survive a reload
+  const chatSessionFor = (data: AnalysisResult) =>
+    data.id
+      ? `analysis-${data.id}`
+      : `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const openAnalysis = async (id: string) => {
+    setLoading(true);
+    setError(null);
+    setCsp(null);
+    setDiff(null);
+    setChatMessages([]);
+
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/analyses/${encodeURIComponent(id)}`
+      );
+
+      if (!response.ok) {
+        throw new Error("Could not load analysis");
+      }
+
+      const data: AnalysisResult = await response.json();
+      const chatSession = chatSessionFor(data);
+      setAnalysis(data);
+      setUrl(data.url);
+      setSessionId(chatSession);
+      localStorage.setItem(LAST_ANALYSIS_KEY, id);
+
+      await loadDiff(data);
+
+      const historyResponse = await fetch(
+        `${API_BASE_URL}/api/v1/chat/${encodeURIComponent(chatSession)}/history`
+      );
+      const chatHistory = historyResponse.ok
+        ? await historyResponse.json()
+        : { messages: [], analysisData: null };
+
+      if (chatHistory.analysisData) {
+        setChatMessages(chatHistory.messages);
+      } else {
+        await fetch(`${API_BASE_URL}/api/v1/chat/init`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId: chatSession, analysisData: data }),
+        });
+      }
+    } catch (err) {
+      localStorage.removeItem(LAST_ANALYSIS_KEY);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Restore the last opened analysis after a reload
+  useEffect(() => {
+    loadHistory();
+    const lastId = localStorage.getItem(LAST_ANALYSIS_KEY);
+    if (lastId) {
+      openAnalysis(lastId);
+    }
+  }, []);
+
   const analyzeWebsite = async () => {
     if (!url) {
       setError("Please enter a URL");
@@ -65,34 +628,99 @@ function App() {
     }
 
     setLoading(true);
+    setProgress("Starting scan...");
     setError(null);
     setAnalysis(null);
+    setCsp(null);
+    setDiff(null);
     setChatMessages([]);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/v1/analyze`, {
+      const response = await fetch(`${API_BASE_URL}/api/v1/scans`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({
+          url,
+          ownDomains: ownDomains
+            .split(",")
+            .map((domain) => domain.trim())
+            .filter(Boolean),
+          compareConsent,
+          crawl,
+        }),
       });
 
       if (!response.ok) {
         throw new Error("Analysis failed");
       }
 
-      const data: AnalysisResult = await response.json();
+      const job: { id: string } = await response.json();
+
+      // Render each script's verdict as soon as it is ready
+      const data = await followScan(job.id, (event) => {
+        switch (event.type) {
+          case "page_loaded":
+            setProgress(
+              crawl
+                ? `Loaded page ${event.pagesLoaded}: ${event.url}`
+                : "Page loaded, collecting scripts..."
+            );
+            break;
+          case "journey_step":
+            if (event.step) {
+              setProgress(
+                `Journey step ${event.step.step}: ${event.step.description} (${event.step.status})`
+              );
+            }
+            break;
+          case "scripts_found":
+            if (event.partial) {
+              setAnalysis({ ...event.partial, analyses: [] });
+            }
+            setProgress(
+              `Found ${event.partial?.thirdPartyScripts ?? 0} third-party scripts, analyzing ${event.toAnalyze ?? 0}...`
+            );
+            break;
+          case "script_analyzed": {
+            const scriptAnalysis = event.analysis;
+            if (scriptAnalysis) {
+              setAnalysis((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      analyses: [...(prev.analyses || []), scriptAnalysis],
+                    }
+                  : prev
+              );
+            }
+            setProgress(`Analyzed ${event.analyzed} of ${event.total} scripts...`);
+            break;
+          }
+        }
+      });
+
+      const chatSession = chatSessionFor(data);
       setAnalysis(data);
+      setSessionId(chatSession);
+      if (data.id) {
+        localStorage.setItem(LAST_ANALYSIS_KEY, data.id);
+      }
+
+      await loadDiff(data);
 
       // Initialize chat session
       await fetch(`${API_BASE_URL}/api/v1/chat/init`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId, analysisData: data }),
+        body: JSON.stringify({ sessionId: chatSession, analysisData: data }),
       });
+
+      loadHistory();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
@@ -142,10 +770,69 @@ function App() {
     }
   };
 
+  const generateCsp = async () => {
+    if (!analysis) return;
+
+    setCspLoading(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/csp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisData: analysis }),
+      });
+
+      if (!response.ok) {
+        throw new Error("CSP generation failed");
+      }
+
+      setCsp(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setCspLoading(false);
+    }
+  };
+
   const handleQuickQuestion = (question: string) => {
     setChatInput(question);
   };
 
+  const getLoadedBy = (scriptUrl: string) =>
+    analysis?.scripts.find((s) => s.url === scriptUrl)?.initiator?.url;
+
+  // Outbound requests grouped by destination host, identifiers first
+  const getNetworkHosts = (network: OutboundRequest[]) => {
+    const hosts = new Map<
+      string,
+      DataDestination & { thirdParty: boolean; senders: Set<string> }
+    >();
+    for (const request of network) {
+      const entry = hosts.get(request.host) || {
+        host: request.host,
+        kinds: [],
+        requests: 0,
+        payloadBytes: 0,
+        identifiers: [],
+        thirdParty: request.thirdParty,
+        senders: new Set<string>(),
+      };
+      entry.requests++;
+      entry.payloadBytes += request.payloadBytes;
+      if (!entry.kinds.includes(request.kind)) entry.kinds.push(request.kind);
+      for (const identifier of request.identifiers) {
+        if (!entry.identifiers.includes(identifier)) {
+          entry.identifiers.push(identifier);
+        }
+      }
+      if (request.initiator) entry.senders.add(request.initiator);
+      hosts.set(request.host, entry);
+    }
+    return Array.from(hosts.values()).sort(
+      (a, b) =>
+        b.identifiers.length - a.identifiers.length || b.requests - a.requests
+    );
+  };
+
   const getRiskColor = (level: string) => {
     switch (level) {
       case "LOW":
@@ -213,284 +900,1046 @@ function App() {
         <p>AI-Powered Third-Party Script Security Analyzer</p>
       </header>
 
-      <main>
-        <div className="analyze-section">
+      <div className="layout">
+        <aside className="history-sidebar">
+          <h3>🕘 History</h3>
+          {history.length === 0 ? (
+            <p className="history-empty">Past scans will appear here.</p>
+          ) : (
+            <ul>
+              {history.map((item) => (
+                <li key={item.id}>
+                  <button
+                    className={`history-item ${
+                      analysis?.id === item.id ? "active" : ""
+                    }`}
+                    onClick={() => openAnalysis(item.id)}
+                    disabled={loading}
+                  >
+                    <span className="history-host">{item.host}</span>
+                    <span className="history-meta">
+                      {new Date(item.scannedAt).toLocaleString()}
+                    </span>
+                    <span className="history-meta">
+                      {item.grade && `Grade ${item.grade} · `}
+                      {item.thirdPartyScripts} third-party
+                      {item.riskCounts.HIGH + item.riskCounts.CRITICAL > 0 &&
+                        ` · ${
+                          item.riskCounts.HIGH + item.riskCounts.CRITICAL
+                        } high risk`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        <main>
+          <div className="analyze-section">
+            <input
+              type="text"
+              placeholder="Enter website URL (e.g., https://example.com)"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && analyzeWebsite()}
+            />
+            <button onClick={analyzeWebsite} disabled={loading}>
+              {loading ? "Analyzing..." : "Analyze Website"}
+            </button>
+          </div>
           <input
             type="text"
-            placeholder="Enter website URL (e.g., https://example.com)"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && analyzeWebsite()}
+            className="own-domains-input"
+            placeholder="Our other domains, comma-separated (e.g., cdn.example.net)"
+            value={ownDomains}
+            onChange={(e) => setOwnDomains(e.target.value)}
           />
-          <button onClick={analyzeWebsite} disabled={loading}>
-            {loading ? "Analyzing..." : "Analyze Website"}
-          </button>
-        </div>
-
-        {error && (
-          <div className="error">
-            <p>❌ {error}</p>
-          </div>
-        )}
+          <label className="scan-option">
+            <input
+              type="checkbox"
+              checked={compareConsent}
+              onChange={(e) => setCompareConsent(e.target.checked)}
+            />{" "}
+            Also load the page after accepting cookies and compare
+          </label>
+          <label className="scan-option">
+            <input
+              type="checkbox"
+              checked={crawl}
+              onChange={(e) => setCrawl(e.target.checked)}
+            />{" "}
+            Crawl same-site links (checkout and login pages first, up to 10
+            pages)
+          </label>
 
-        {loading && (
-          <div className="loading">
-            <div className="spinner"></div>
-            <p>Analyzing scripts with AI... This may take 20-30 seconds</p>
-          </div>
-        )}
-
-        {analysis && (
-          <div className="results">
-            <h2>Security Report for {new URL(analysis.url).hostname}</h2>
+          {error && (
+            <div className="error">
+              <p>❌ {error}</p>
+            </div>
+          )}
 
-            <div className="summary">
-              <div className="stat">
-                <span className="label">Total Scripts:</span>
-                <span className="value">{analysis.totalScripts}</span>
-              </div>
-              <div className="stat">
-                <span className="label">Third-Party:</span>
-                <span className="value">{analysis.thirdPartyScripts}</span>
-              </div>
-              <div className="stat">
-                <span className="label">Analyzed:</span>
-                <span className="value">{analysis.analyses?.length || 0}</span>
-              </div>
+          {loading && (
+            <div className="loading">
+              <div className="spinner"></div>
+              <p>
+                {progress ||
+                  "Analyzing scripts with AI... This may take 20-30 seconds"}
+              </p>
             </div>
+          )}
 
-            {/* Risk Legend */}
-            <div className="risk-legend">
-              <h3>🎯 Risk Level Guide</h3>
-              <div className="legend-items">
-                <div className="legend-item">
-                  <span
-                    className="legend-badge"
-                    style={{ background: "#10b981" }}
-                  >
-                    🟢 LOW RISK
-                  </span>
-                  <span className="legend-text">
-                    Safe - Legitimate services
-                  </span>
+          {analysis && (
+            <div className="results">
+              <h2>Security Report for {new URL(analysis.url).hostname}</h2>
+
+              {/* Site Summary */}
+              {analysis.summary && (
+                <div className="site-summary">
+                  <div className="site-grade-row">
+                    <span
+                      className={`site-grade grade-${analysis.summary.grade.toLowerCase()}`}
+                    >
+                      {analysis.summary.grade}
+                    </span>
+                    <div>
+                      <strong>{analysis.summary.gradeReason}</strong>
+                      <p className="site-counts">
+                        {analysis.summary.riskCounts.CRITICAL} critical ·{" "}
+                        {analysis.summary.riskCounts.HIGH} high ·{" "}
+                        {analysis.summary.riskCounts.MEDIUM} medium ·{" "}
+                        {analysis.summary.riskCounts.LOW} low ·{" "}
+                        {analysis.summary.recommendationCounts.BLOCK} to block
+                      </p>
+                    </div>
+                  </div>
+
+                  {analysis.summary.executiveSummary && (
+                    <p className="executive-summary">
+                      {analysis.summary.executiveSummary}
+                    </p>
+                  )}
+
+                  {analysis.summary.topConcerns.length > 0 && (
+                    <>
+                      <h4>Top concerns</h4>
+                      <ul className="top-concerns">
+                        {analysis.summary.topConcerns.map((concern) => (
+                          <li key={concern.scriptUrl}>
+                            <strong>{concern.scriptName}</strong> (
+                            {concern.riskLevel}
+                            {concern.score !== undefined &&
+                              `, ${concern.score}/100`}
+                            ): {concern.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+
+                  {analysis.summary.dataCategories.length > 0 && (
+                    <>
+                      <h4>Data leaving the site</h4>
+                      <div className="summary-tags">
+                        {analysis.summary.dataCategories.map((item) => (
+                          <span key={item.category} className="summary-tag">
+                            {item.category} ({item.scripts})
+                          </span>
+                        ))}
+                      </div>
+                    </>
+                  )}
+
+                  {analysis.summary.destinations.length > 0 && (
+                    <>
+                      <h4>Sent to</h4>
+                      <ul className="summary-destinations">
+                        {analysis.summary.destinations.map((destination) => (
+                          <li key={destination.organization}>
+                            <strong>{destination.organization}</strong>{" "}
+                            <span className="script-url">
+                              {destination.hosts.join(", ")}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                 </div>
-                <div className="legend-item">
-                  <span
-                    className="legend-badge"
-                    style={{ background: "#f59e0b" }}
-                  >
-                    🟡 MEDIUM RISK
-                  </span>
-                  <span className="legend-text">
-                    Monitor - Tracks user data
-                  </span>
+              )}
+
+              <div className="summary">
+                <div className="stat">
+                  <span className="label">Total Scripts:</span>
+                  <span className="value">{analysis.totalScripts}</span>
                 </div>
-                <div className="legend-item">
-                  <span
-                    className="legend-badge"
-                    style={{ background: "#ef4444" }}
-                  >
-                    🟠 HIGH RISK
-                  </span>
-                  <span className="legend-text">
-                    Caution - Privacy concerns
-                  </span>
+                <div className="stat">
+                  <span className="label">Third-Party:</span>
+                  <span className="value">{analysis.thirdPartyScripts}</span>
                 </div>
-                <div className="legend-item">
-                  <span
-                    className="legend-badge"
-                    style={{ background: "#dc2626" }}
-                  >
-                    🔴 CRITICAL RISK
-                  </span>
-                  <span className="legend-text">Dangerous - Should block</span>
+                <div className="stat">
+                  <span className="label">Analyzed:</span>
+                  <span className="value">{analysis.analyses?.length || 0}</span>
                 </div>
               </div>
-            </div>
 
-            {/* Chat Interface */}
-            <div className="chat-section">
-              <h3>💬 Ask Questions About This Analysis</h3>
-              <div className="chat-container">
-                <div className="chat-messages" ref={chatContainerRef}>
-                  {chatMessages.length === 0 && (
-                    <div className="chat-placeholder">
-                      <p>
-                        <strong>Tip:</strong> Ask about a specific script or
-                        risk to get the most relevant, detailed answer.
-                        <br />
-                        <span>
-                          Broad questions like “list all scripts” will show only
-                          the quickest summary.
-                        </span>
-                      </p>
-                      <div className="suggested-questions">
-                        <button
-                          className="question-button"
-                          onClick={() =>
-                            handleQuickQuestion(
-                              "Which top 3 scripts should I monitor?"
-                            )
-                          }
-                        >
-                          🔍 Top scripts to monitor
-                        </button>
-                        <button
-                          className="question-button"
-                          onClick={() =>
-                            handleQuickQuestion("Is this GDPR compliant?")
-                          }
-                        >
-                          ⚖️ GDPR compliant?
-                        </button>
-                        <button
-                          className="question-button"
-                          onClick={() =>
-                            handleQuickQuestion(
-                              "What are the biggest privacy risks?"
-                            )
-                          }
-                        >
-                          🚫 Biggest risks?
-                        </button>
-                        <button
-                          className="question-button"
-                          onClick={() =>
-                            handleQuickQuestion(
-                              "Summarize this in 3 key points"
-                            )
-                          }
+              {/* User Journey */}
+              {analysis.journey && (
+                <div className="journey-section">
+                  <h3>🧭 User Journey ({analysis.journey.length} steps)</h3>
+                  <ol className="journey-steps">
+                    {analysis.journey.map((step) => (
+                      <li key={step.step} className={`journey-${step.status}`}>
+                        <strong>{step.description}</strong> · {step.status}
+                        {step.error && ` (${step.error})`}
+                        {step.status !== "skipped" && (
+                          <p className="graph-hint">
+                            {step.newScripts.length} new script(s),{" "}
+                            {step.runtimeEvents} runtime event(s)
+                            {step.url && ` on ${step.url}`}
+                          </p>
+                        )}
+                        {step.newScripts.length > 0 && (
+                          <ul>
+                            {step.newScripts.map((scriptUrl) => (
+                              <li key={scriptUrl} className="script-url">
+                                {scriptUrl}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {/* Network Exfiltration Map */}
+              {analysis.network && analysis.network.length > 0 && (
+                <div className="network-section">
+                  <h3>
+                    📡 Network Exfiltration Map ({analysis.network.length}{" "}
+                    requests)
+                  </h3>
+                  <p className="graph-hint">
+                    Every request the page sent out, by destination. Query
+                    strings and bodies are checked for identifiers but never
+                    stored.
+                    {analysis.networkTruncated &&
+                      ` Showing the first ${analysis.network.length} of ${analysis.networkTotal} requests.`}
+                  </p>
+                  <table className="consent-table">
+                    <thead>
+                      <tr>
+                        <th>Destination</th>
+                        <th>Type</th>
+                        <th>Requests</th>
+                        <th>Payload</th>
+                        <th>Identifiers</th>
+                        <th>Sent by</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {getNetworkHosts(analysis.network).map((entry) => (
+                        <tr key={entry.host}>
+                          <td className="script-url">
+                            {entry.host}
+                            {!entry.thirdParty && " (first-party)"}
+                          </td>
+                          <td>{entry.kinds.join(", ")}</td>
+                          <td>{entry.requests}</td>
+                          <td>{entry.payloadBytes} B</td>
+                          <td>
+                            {entry.identifiers.map((identifier) => (
+                              <span key={identifier} className="identifier-tag">
+                                {identifier}
+                              </span>
+                            ))}
+                          </td>
+                          <td>
+                            <ul>
+                              {Array.from(entry.senders).map((sender) => (
+                                <li key={sender} className="script-url">
+                                  {sender}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Crawled Pages */}
+              {analysis.pages && (
+                <div className="crawled-pages">
+                  <h3>🗺️ Crawled Pages ({analysis.pages.length})</h3>
+                  <ul>
+                    {analysis.pages.map((page) => (
+                      <li key={page.url}>
+                        <span className="script-url">{page.url}</span>{" "}
+                        {page.status === "scanned"
+                          ? `· ${page.scripts} script(s)`
+                          : `· failed: ${page.error}`}
+                        {page.depth > 0 && ` · depth ${page.depth}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Privacy Compliance */}
+              {analysis.compliance && (
+                <div className="compliance-section">
+                  <h3>⚖️ Privacy Compliance (GDPR / CCPA)</h3>
+                  <p className="graph-hint">
+                    Page loaded once with no consent given.{" "}
+                    {analysis.compliance.cmp.detected
+                      ? `Consent platform: ${
+                          analysis.compliance.cmp.name ||
+                          [
+                            analysis.compliance.cmp.tcf && "TCF",
+                            analysis.compliance.cmp.gpp && "GPP",
+                            analysis.compliance.cmp.usp && "USP",
+                          ]
+                            .filter(Boolean)
+                            .join(", ")
+                        }.`
+                      : "No consent platform detected."}{" "}
+                    {analysis.compliance.cookies.length} cookie(s) set before
+                    consent.
+                  </p>
+
+                  {analysis.compliance.findings.length === 0 ? (
+                    <p>✅ No trackers or tracking cookies before consent.</p>
+                  ) : (
+                    <ul className="compliance-findings">
+                      {analysis.compliance.findings.map((finding) => (
+                        <li
+                          key={finding.id}
+                          className={`severity-${finding.severity.toLowerCase()}`}
                         >
-                          💡 Quick summary
-                        </button>
-                      </div>
-                    </div>
+                          <strong>{finding.title}</strong>{" "}
+                          <span className="regulation-tag">
+                            {finding.regulations.join(" / ")}
+                          </span>
+                          <br />
+                          {finding.detail}
+                        </li>
+                      ))}
+                    </ul>
                   )}
+                </div>
+              )}
 
-                  {chatMessages.map((msg, i) => (
-                    <div key={i} className={`chat-message ${msg.role}`}>
-                      <div className="message-header">
-                        <span className="message-role">
-                          {msg.role === "user" ? "👤 You" : "🤖 AI Assistant"}
-                        </span>
-                        <span className="message-time">
-                          {new Date(msg.timestamp).toLocaleTimeString()}
-                        </span>
-                      </div>
-                      <div className="message-content">{msg.content}</div>
-                    </div>
-                  ))}
+              {/* Before / After Consent */}
+              {analysis.consentComparison && (
+                <div className="consent-comparison">
+                  <h3>🍪 Before vs. After Consent</h3>
+                  <p className="graph-hint">
+                    {analysis.consentComparison.consentGiven
+                      ? `Consent given via ${analysis.consentComparison.acceptedWith}.`
+                      : "No consent banner could be accepted, so both loads ran without consent."}
+                  </p>
+                  <table className="consent-table">
+                    <thead>
+                      <tr>
+                        <th></th>
+                        <th>Only after consent</th>
+                        <th>Regardless of consent</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(
+                        [
+                          ["Scripts", analysis.consentComparison.scripts],
+                          ["Cookies", analysis.consentComparison.cookies],
+                          [
+                            "Destinations",
+                            analysis.consentComparison.destinations,
+                          ],
+                        ] as [string, ConsentDiff][]
+                      ).map(([label, diff]) => (
+                        <tr key={label}>
+                          <th>{label}</th>
+                          <td>
+                            <ul>
+                              {diff.afterConsentOnly.map((item) => (
+                                <li key={item} className="script-url">
+                                  {item}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                          <td>
+                            <ul>
+                              {diff.regardless.map((item) => (
+                                <li key={item} className="script-url">
+                                  {item}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
 
-                  {chatLoading && (
-                    <div className="chat-message assistant">
-                      <div className="message-header">
-                        <span className="message-role">🤖 AI Assistant</span>
-                      </div>
-                      <div className="message-content typing">
-                        <span></span>
-                        <span></span>
-                        <span></span>
-                      </div>
-                    </div>
+              {/* Changes Since Last Scan */}
+              {diff && (
+                <div className="diff-section">
+                  <h3>🕒 Changes Since Last Scan</h3>
+                  {diff.fromScannedAt && (
+                    <p className="graph-hint">
+                      Compared with the scan from{" "}
+                      {new Date(diff.fromScannedAt).toLocaleString()}
+                    </p>
                   )}
 
-                  <div ref={messagesEndRef} />
+                  {diff.added.length +
+                    diff.removed.length +
+                    diff.riskChanged.length +
+                    diff.contentChanged.length +
+                    diff.inlineAdded.length +
+                    diff.inlineRemoved.length ===
+                  0 ? (
+                    <p>✅ No changes detected.</p>
+                  ) : (
+                    <ul className="diff-list">
+                      {diff.contentChanged.map((change) => (
+                        <li key={`content-${change.scriptUrl}`} className="content">
+                          ⚠️ <strong>Content changed</strong> at the same URL:{" "}
+                          <span className="script-url">{change.scriptUrl}</span>
+                        </li>
+                      ))}
+                      {diff.riskChanged.map((change) => (
+                        <li key={`risk-${change.scriptUrl}`} className="risk">
+                          <strong>{change.scriptName}</strong>: {change.from} →{" "}
+                          {change.to}
+                        </li>
+                      ))}
+                      {diff.added.map((scriptUrl) => (
+                        <li key={`added-${scriptUrl}`} className="added">
+                          ➕ <span className="script-url">{scriptUrl}</span>
+                        </li>
+                      ))}
+                      {diff.removed.map((scriptUrl) => (
+                        <li key={`removed-${scriptUrl}`} className="removed">
+                          ➖ <span className="script-url">{scriptUrl}</span>
+                        </li>
+                      ))}
+                      {diff.inlineAdded.length > 0 && (
+                        <li className="added">
+                          ➕ {diff.inlineAdded.length} new inline script(s)
+                        </li>
+                      )}
+                      {diff.inlineRemoved.length > 0 && (
+                        <li className="removed">
+                          ➖ {diff.inlineRemoved.length} inline script(s) removed
+                        </li>
+                      )}
+                    </ul>
+                  )}
                 </div>
+              )}
 
-                <div className="chat-input-container">
-                  <input
-                    type="text"
-                    className="chat-input"
-                    placeholder="Ask a question about the scripts..."
-                    value={chatInput}
-                    onChange={(e) => setChatInput(e.target.value)}
-                    onKeyPress={(e) =>
-                      e.key === "Enter" && !chatLoading && sendChatMessage()
-                    }
-                    disabled={chatLoading}
-                  />
-                  <button
-                    className="chat-send"
-                    onClick={sendChatMessage}
-                    disabled={chatLoading || !chatInput.trim()}
-                  >
-                    Send
-                  </button>
+              {/* Risk Legend */}
+              <div className="risk-legend">
+                <h3>🎯 Risk Level Guide</h3>
+                <div className="legend-items">
+                  <div className="legend-item">
+                    <span
+                      className="legend-badge"
+                      style={{ background: "#10b981" }}
+                    >
+                      🟢 LOW RISK
+                    </span>
+                    <span className="legend-text">
+                      Safe - Legitimate services
+                    </span>
+                  </div>
+                  <div className="legend-item">
+                    <span
+                      className="legend-badge"
+                      style={{ background: "#f59e0b" }}
+                    >
+                      🟡 MEDIUM RISK
+                    </span>
+                    <span className="legend-text">
+                      Monitor - Tracks user data
+                    </span>
+                  </div>
+                  <div className="legend-item">
+                    <span
+                      className="legend-badge"
+                      style={{ background: "#ef4444" }}
+                    >
+                      🟠 HIGH RISK
+                    </span>
+                    <span className="legend-text">
+                      Caution - Privacy concerns
+                    </span>
+                  </div>
+                  <div className="legend-item">
+                    <span
+                      className="legend-badge"
+                      style={{ background: "#dc2626" }}
+                    >
+                      🔴 CRITICAL RISK
+                    </span>
+                    <span className="legend-text">Dangerous - Should block</span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Analysis Results */}
-            {analysis.analyses && analysis.analyses.length > 0 && (
-              <div className="analyses-list">
-                <h3>AI Analysis Results</h3>
-                {analysis.analyses.map((script, i) => (
-                  <div
-                    key={i}
-                    className="analysis-card"
-                    style={{
-                      borderLeft: `4px solid ${getRiskColor(script.riskLevel)}`,
-                    }}
-                  >
-                    <div className="analysis-header">
-                      <h4>
-                        {getRiskEmoji(script.riskLevel)} {script.scriptName}
-                      </h4>
-                      <div className="risk-badge-container">
-                        <span
-                          className="risk-badge"
-                          style={{ background: getRiskColor(script.riskLevel) }}
-                        >
-                          {getRiskLabel(script.riskLevel)}
-                        </span>
-                        <span className="risk-explanation">
-                          {getRiskExplanation(script.riskLevel)}
-                        </span>
+              {/* Chat Interface */}
+              <div className="chat-section">
+                <h3>💬 Ask Questions About This Analysis</h3>
+                <div className="chat-container">
+                  <div className="chat-messages" ref={chatContainerRef}>
+                    {chatMessages.length === 0 && (
+                      <div className="chat-placeholder">
+                        <p>
+                          <strong>Tip:</strong> Ask about a specific script or
+                          risk to get the most relevant, detailed answer.
+                          <br />
+                          <span>
+                            Broad questions like “list all scripts” will show only
+                            the quickest summary.
+                          </span>
+                        </p>
+                        <div className="suggested-questions">
+                          <button
+                            className="question-button"
+                            onClick={() =>
+                              handleQuickQuestion(
+                                "Which top 3 scripts should I monitor?"
+                              )
+                            }
+                          >
+                            🔍 Top scripts to monitor
+                          </button>
+                          <button
+                            className="question-button"
+                            onClick={() =>
+                              handleQuickQuestion("Is this GDPR compliant?")
+                            }
+                          >
+                            ⚖️ GDPR compliant?
+                          </button>
+                          <button
+                            className="question-button"
+                            onClick={() =>
+                              handleQuickQuestion(
+                                "What are the biggest privacy risks?"
+                              )
+                            }
+                          >
+                            🚫 Biggest risks?
+                          </button>
+                          <button
+                            className="question-button"
+                            onClick={() =>
+                              handleQuickQuestion(
+                                "Summarize this in 3 key points"
+                              )
+                            }
+                          >
+                            💡 Quick summary
+                          </button>
+                        </div>
                       </div>
-                    </div>
+                    )}
 
-                    <p className="purpose">
-                      <strong>Purpose:</strong> {script.purpose}
-                    </p>
+                    {chatMessages.map((msg, i) => (
+                      <div key={i} className={`chat-message ${msg.role}`}>
+                        <div className="message-header">
+                          <span className="message-role">
+                            {msg.role === "user" ? "👤 You" : "🤖 AI Assistant"}
+                          </span>
+                          <span className="message-time">
+                            {new Date(msg.timestamp).toLocaleTimeString()}
+                          </span>
+                        </div>
+                        <div className="message-content">{msg.content}</div>
+                      </div>
+                    ))}
 
-                    <p className="explanation">
-                      {script.userFriendlyExplanation}
-                    </p>
+                    {chatLoading && (
+                      <div className="chat-message assistant">
+                        <div className="message-header">
+                          <span className="message-role">🤖 AI Assistant</span>
+                        </div>
+                        <div className="message-content typing">
+                          <span></span>
+                          <span></span>
+                          <span></span>
+                        </div>
+                      </div>
+                    )}
 
-                    <div className="details">
-                      <div className="detail-section">
-                        <strong>Data Collected:</strong>
-                        <ul>
-                          {script.dataCollected.map((data, j) => (
-                            <li key={j}>{data}</li>
-                          ))}
-                        </ul>
+                    <div ref={messagesEndRef} />
+                  </div>
+
+                  <div className="chat-input-container">
+                    <input
+                      type="text"
+                      className="chat-input"
+                      placeholder="Ask a question about the scripts..."
+                      value={chatInput}
+                      onChange={(e) => setChatInput(e.target.value)}
+                      onKeyPress={(e) =>
+                        e.key === "Enter" && !chatLoading && sendChatMessage()
+                      }
+                      disabled={chatLoading}
+                    />
+                    <button
+                      className="chat-send"
+                      onClick={sendChatMessage}
+                      disabled={chatLoading || !chatInput.trim()}
+                    >
+                      Send
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Analysis Results */}
+              {analysis.analyses && analysis.analyses.length > 0 && (
+                <div className="analyses-list">
+                  <h3>AI Analysis Results</h3>
+                  {analysis.analyses.map((script, i) => (
+                    <div
+                      key={i}
+                      className="analysis-card"
+                      style={{
+                        borderLeft: `4px solid ${getRiskColor(script.riskLevel)}`,
+                      }}
+                    >
+                      <div className="analysis-header">
+                        <h4>
+                          {getRiskEmoji(script.riskLevel)} {script.scriptName}
+                        </h4>
+                        <div className="risk-badge-container">
+                          <span
+                            className="risk-badge"
+                            style={{ background: getRiskColor(script.riskLevel) }}
+                          >
+                            {getRiskLabel(script.riskLevel)}
+                          </span>
+                          <span className="risk-explanation">
+                            {getRiskExplanation(script.riskLevel)}
+                          </span>
+                          {script.cacheHit && (
+                            <span className="cache-badge">
+                              {script.cacheOverride
+                                ? "Admin override"
+                                : "Cached verdict"}
+                            </span>
+                          )}
+                        </div>
                       </div>
 
-                      <div className="detail-section">
-                        <strong>Recommendation:</strong>
-                        <span
-                          className={`recommendation ${script.recommendation.toLowerCase()}`}
-                        >
-                          {script.recommendation}
-                        </span>
+                      {script.riskScore && (
+                        <div className="score-breakdown">
+                          <strong>
+                            Risk score: {script.riskScore.score}/100
+                          </strong>
+                          <ul>
+                            {script.riskScore.factors.map((factor) => (
+                              <li key={factor.id}>
+                                <span className="score-points">
+                                  +{factor.points}
+                                </span>{" "}
+                                {factor.label}
+                                {factor.detail && (
+                                  <span className="score-detail">
+                                    {" "}
+                                    ({factor.detail})
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      <p className="purpose">
+                        <strong>Purpose:</strong> {script.purpose}
+                      </p>
+
+                      <p className="explanation">
+                        {script.userFriendlyExplanation}
+                      </p>
+
+                      <div className="details">
+                        <div className="detail-section">
+                          <strong>Data Collected:</strong>
+                          <ul>
+                            {script.dataCollected.map((data, j) => (
+                              <li key={j}>{data}</li>
+                            ))}
+                          </ul>
+                        </div>
+
+                        <div className="detail-section">
+                          <strong>Recommendation:</strong>
+                          <span
+                            className={`recommendation ${script.recommendation.toLowerCase()}`}
+                          >
+                            {script.recommendation}
+                          </span>
+                        </div>
                       </div>
+
+                      {script.behavior && (
+                        <div className="detail-section behavior">
+                          <strong>Observed Behavior:</strong>
+                          <ul>
+                            <li>Cookie reads: {script.behavior.cookieReads}</li>
+                            <li>Cookie writes: {script.behavior.cookieWrites}</li>
+                            <li>
+                              localStorage writes:{" "}
+                              {script.behavior.localStorageWrites}
+                            </li>
+                            <li>
+                              Network requests:{" "}
+                              {script.behavior.fetchCallCount ??
+                                script.behavior.fetchCalls.length}
+                            </li>
+                          </ul>
+                        </div>
+                      )}
+
+                      {script.fieldAccess && script.fieldAccess.length > 0 && (
+                        <div className="detail-section behavior field-access">
+                          <strong>🚨 Form Field Access (possible skimming):</strong>
+                          <ul>
+                            {script.fieldAccess.map((finding, j) => (
+                              <li key={j}>
+                                <span
+                                  style={{
+                                    color: getRiskColor(finding.severity),
+                                  }}
+                                >
+                                  [{finding.severity}]
+                                </span>{" "}
+                                {finding.description}
+                                {finding.page && ` on ${finding.page}`}
+                                <code className="finding-evidence">
+                                  {finding.evidence}
+                                </code>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {script.fingerprinting && (
+                        <div className="detail-section behavior">
+                          <strong>
+                            Fingerprinting (score {script.fingerprinting.score}
+                            /100):
+                          </strong>{" "}
+                          {script.fingerprinting.techniques.map((t) => (
+                            <span key={t.technique} className="summary-tag">
+                              {t.technique}
+                            </span>
+                          ))}
+                          <ul>
+                            {script.fingerprinting.techniques.map((t) => (
+                              <li key={t.technique}>
+                                {t.evidence} · {t.calls} call(s)
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {script.staticAnalysis &&
+                        script.staticAnalysis.findings.length > 0 && (
+                          <div className="detail-section behavior">
+                            <strong>Source Findings:</strong>
+                            <ul>
+                              {script.staticAnalysis.findings.map((finding, j) => (
+                                <li key={j}>
+                                  <span
+                                    style={{
+                                      color: getRiskColor(finding.severity),
+                                    }}
+                                  >
+                                    [{finding.severity}]
+                                  </span>{" "}
+                                  {finding.description}
+                                  <code className="finding-evidence">
+                                    {finding.evidence}
+                                  </code>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                      {script.sri && script.sri.status !== "not_applicable" && (
+                        <div className={`sri-finding ${script.sri.status}`}>
+                          <strong>Subresource Integrity:</strong>{" "}
+                          {script.sri.message}
+                          {script.sri.suggestedAttributes && (
+                            <code className="finding-evidence">
+                              {script.sri.suggestedAttributes}
+                            </code>
+                          )}
+                        </div>
+                      )}
+
+                      <details className="script-details">
+                        <summary>Technical Details</summary>
+                        <p className="script-url">{script.scriptUrl}</p>
+                        <p>
+                          <strong>Reasoning:</strong> {script.reasoning}
+                        </p>
+                        {getLoadedBy(script.scriptUrl) && (
+                          <p>
+                            <strong>Loaded by:</strong>{" "}
+                            {getLoadedBy(script.scriptUrl)}
+                          </p>
+                        )}
+                        {script.behavior?.destinations?.length ? (
+                          <div>
+                            <strong>Sends data to:</strong>
+                            <ul>
+                              {script.behavior.destinations.map((d) => (
+                                <li key={d.host}>
+                                  <span className="script-url">{d.host}</span>{" "}
+                                  · {d.requests} {d.kinds.join("/")} ·{" "}
+                                  {d.payloadBytes} B
+                                  {d.identifiers.map((identifier) => (
+                                    <span
+                                      key={identifier}
+                                      className="identifier-tag"
+                                    >
+                                      {identifier}
+                                    </span>
+                                  ))}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : (
+                          script.destinations.length > 0 && (
+                            <p>
+                              <strong>Destinations:</strong>{" "}
+                              {script.destinations.join(", ")}
+                            </p>
+                          )
+                        )}
+                        {script.pages && analysis.pages && (
+                          <p>
+                            <strong>
+                              Loaded on {script.pages.length} of{" "}
+                              {analysis.pages.length} page(s):
+                            </strong>{" "}
+                            {script.pages.join(", ")}
+                          </p>
+                        )}
+                        {script.journeyStep && (
+                          <p>
+                            <strong>First loaded at:</strong> journey step{" "}
+                            {script.journeyStep}
+                          </p>
+                        )}
+                        {script.consentPurpose && (
+                          <p>
+                            <strong>Consent purpose:</strong>{" "}
+                            {script.consentPurpose}
+                          </p>
+                        )}
+                        {script.signature && (
+                          <p>
+                            <strong>Vendor:</strong> {script.signature.vendor} (
+                            {script.signature.category.replace("_", " ")})
+                            {script.signature.privacyPolicy && (
+                              <>
+                                {" · "}
+                                <a
+                                  href={script.signature.privacyPolicy}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  Privacy policy
+                                </a>
+                              </>
+                            )}
+                          </p>
+                        )}
+                        {script.classifiedWith && (
+                          <p>
+                            <strong>Classified with:</strong>{" "}
+                            {script.classifiedWith} (same host)
+                          </p>
+                        )}
+                      </details>
                     </div>
+                  ))}
+                </div>
+              )}
 
-                    <details className="script-details">
-                      <summary>Technical Details</summary>
-                      <p className="script-url">{script.scriptUrl}</p>
-                      <p>
-                        <strong>Reasoning:</strong> {script.reasoning}
+              {/* Scripts that were not fully analyzed */}
+              {analysis.skippedScripts && analysis.skippedScripts.length > 0 && (
+                <div className="skipped-scripts">
+                  <h3>⏭️ Not Fully Analyzed ({analysis.skippedScripts.length})</h3>
+                  <ul>
+                    {analysis.skippedScripts.map((skipped) => (
+                      <li key={skipped.url}>
+                        <span className="script-url">{skipped.url}</span>
+                        <br />
+                        {skipped.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Content Security Policy */}
+              <div className="csp-section">
+                <h3>🔐 Content Security Policy</h3>
+                <p className="graph-hint">
+                  Builds a policy from the ALLOW / MONITOR / BLOCK verdicts
+                  above.
+                </p>
+                <button
+                  className="question-button"
+                  onClick={generateCsp}
+                  disabled={cspLoading}
+                >
+                  {cspLoading ? "Generating..." : "Generate CSP"}
+                </button>
+
+                {csp && (
+                  <div className="csp-result">
+                    <div className="csp-tabs">
+                      <button
+                        className={cspMode === "reportOnly" ? "active" : ""}
+                        onClick={() => setCspMode("reportOnly")}
+                      >
+                        Report-Only
+                      </button>
+                      <button
+                        className={cspMode === "enforce" ? "active" : ""}
+                        onClick={() => setCspMode("enforce")}
+                      >
+                        Enforce
+                      </button>
+                    </div>
+                    <pre className="csp-header">
+                      {cspMode === "enforce" ? csp.enforce : csp.reportOnly}
+                    </pre>
+
+                    {csp.notes.map((note, i) => (
+                      <p key={i} className="csp-note">
+                        ⚠️ {note}
                       </p>
-                    </details>
+                    ))}
+                    <p className="csp-note">💡 {csp.nonceGuidance}</p>
+
+                    {csp.excluded.length > 0 && (
+                      <details className="script-details">
+                        <summary>Excluded sources ({csp.excluded.length})</summary>
+                        {csp.excluded.map((item, i) => (
+                          <p key={i}>
+                            <span className="script-url">{item.source}</span>{" "}
+                            — {item.reason}
+                          </p>
+                        ))}
+                      </details>
+                    )}
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </div>
-        )}
-      </main>
+
+              {/* Dependency Graph */}
+              {analysis.dependencyGraph &&
+                analysis.dependencyGraph.edges.length > 0 && (
+                  <div className="dependency-graph">
+                    <h3>Script Dependency Tree</h3>
+                    <p className="graph-hint">
+                      Shows which script loaded which. Hover a node for its full
+                      URL.
+                    </p>
+                    <DependencyTree
+                      graph={analysis.dependencyGraph}
+                      analyses={analysis.analyses || []}
+                      getRiskColor={getRiskColor}
+                    />
+                  </div>
+                )}
+
+              {/* Inline & Injected Scripts */}
+              {((analysis.inlineScripts?.length || 0) > 0 ||
+                (analysis.injections?.length || 0) > 0) && (
+                <div className="inline-scripts">
+                  <h3>Inline &amp; Injected Scripts</h3>
+
+                  {analysis.injections && analysis.injections.length > 0 && (
+                    <div className="injection-chain">
+                      <strong>Injection Chain:</strong>
+                      <ul>
+                        {analysis.injections.map((injection, i) => (
+                          <li key={i}>
+                            <span className="script-url">
+                              {injection.injectedBy || "unknown"}
+                            </span>{" "}
+                            →{" "}
+                            <span className="script-url">{injection.script}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {analysis.inlineScripts?.map((inline) => (
+                    <details key={inline.hash} className="script-details">
+                      <summary>
+                        {inline.kind === "handler" ? "Event handler" : "Inline script"}{" "}
+                        ({inline.length} chars
+                        {inline.dynamic ? ", injected" : ""}
+                        {inline.staticAnalysis?.findings.length
+                          ? `, ${inline.staticAnalysis.findings.length} findings`
+                          : ""}
+                        )
+                      </summary>
+                      <p className="script-url">{inline.hash}</p>
+                      {inline.injectedBy && (
+                        <p>
+                          <strong>Injected by:</strong> {inline.injectedBy}
+                        </p>
+                      )}
+                      {inline.staticAnalysis?.findings.map((finding, j) => (
+                        <p key={j}>
+                          <strong>[{finding.severity}]</strong>{" "}
+                          {finding.description}
+                        </p>
+                      ))}
+                      {inline.contentOmitted ? (
+                        <p className="graph-hint">
+                          Content not stored; this page has more inline code
+                          than a scan keeps.
+                        </p>
+                      ) : (
+                        <pre className="inline-content">{inline.content}</pre>
+                      )}
+                    </details>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </main>
+      </div>
     </div>
   );
 }
@@ -1 +1,4 @@
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
+
+// localStorage key for reopening the last analysis after a reload
+export const LAST_ANALYSIS_KEY = "scriptSentinel:lastAnalysisId";
@@ -4,12 +4,34 @@ export interface Env {
   AI: Ai;
   SCRIPT_ANALYZER: DurableObjectNamespace;
   CACHE: KVNamespace;
+  // Bearer token for /api/v1/admin routes; unset disables them
+  ADMIN_TOKEN?: string;
 }
 
 // Script analysis types
+export interface ScriptInitiator {
+  type: "parser" | "script" | "other";
+  // Script (or document) URL that caused the request
+  url?: string;
+}
+
+// Attributes read from the <script src> element that loaded a script
+export interface ScriptElementAttributes {
+  integrity?: string;
+  crossorigin?: string;
+  async: boolean;
+  defer: boolean;
+}
+
 export interface ScriptInfo {
   url: string;
   timestamp: number;
+  initiator?: ScriptInitiator;
+  element?: ScriptElementAttributes;
+  // Pages that loaded this script (crawl mode can visit several)
+  pages?: string[];
+  // Journey step (1-based) that first loaded it
+  journeyStep?: number;
 }
 
 export interface ScriptBehavior {
@@ -17,12 +39,141 @@ export interface ScriptBehavior {
   cookieWrites: number;
   localStorageWrites: number;
   fetchCalls: FetchCall[];
+  // All calls made; fetchCalls keeps only the first ones once stored
+  fetchCallCount?: number;
+  // Hosts the script's requests actually went to, busiest first
+  destinations?: DataDestination[];
+  // What it did with canary values seeded into form fields and which
+  // fingerprinting APIs it used; both move onto the ScriptAnalysis once
+  // the script is analyzed
+  fieldAccess?: FieldAccessFinding[];
+  fingerprinting?: FingerprintReport;
+}
+
+// Browser fingerprinting observed through the runtime monitor's API hooks
+export type FingerprintTechnique =
+  | "canvas"
+  | "webgl"
+  | "audio"
+  | "fonts"
+  | "plugins"
+  | "hardware"
+  | "battery"
+  | "media_devices";
+
+export interface FingerprintTechniqueUse {
+  technique: FingerprintTechnique;
+  // APIs the script called, e.g. "HTMLCanvasElement.toDataURL"
+  apis: string[];
+  calls: number;
+  evidence: string;
+}
+
+export interface FingerprintReport {
+  techniques: FingerprintTechniqueUse[];
+  // 0-100; weighted by how identifying each technique is
+  score: number;
+}
+
+// Anti-skimming: fields are seeded with canary values during the scan and
+// any script touching them is reported
+export type SensitiveField =
+  | "card_number"
+  | "card_cvc"
+  | "card_expiry"
+  | "password"
+  | "email"
+  | "text";
+
+export interface FieldAccessFinding {
+  type: "field_listener" | "field_read" | "canary_exfiltration";
+  severity: "CRITICAL";
+  field: SensitiveField;
+  description: string;
+  evidence: string;
+  page?: string;
 }
 
 export interface FetchCall {
   url: string;
   method: string;
   timestamp: number;
+  type?: "fetch" | "xhr" | "beacon" | "websocket";
+}
+
+// Network exfiltration map: every outbound request the page made
+export type OutboundKind =
+  | "fetch"
+  | "xhr"
+  | "beacon"
+  | "pixel"
+  | "websocket"
+  | "form"
+  | "other";
+
+export type IdentifierKind =
+  | "email"
+  | "cookie"
+  | "user_id"
+  | "click_id"
+  | "device_id";
+
+export interface OutboundRequest {
+  kind: OutboundKind;
+  method: string;
+  host: string;
+  // Query string stripped; identifier values are never stored
+  path: string;
+  // Script that initiated the request, when it could be attributed
+  initiator?: string;
+  page: string;
+  payloadBytes: number;
+  identifiers: IdentifierKind[];
+  thirdParty: boolean;
+  timestamp: number;
+}
+
+export interface DataDestination {
+  host: string;
+  kinds: OutboundKind[];
+  requests: number;
+  payloadBytes: number;
+  identifiers: IdentifierKind[];
+}
+
+// Static source analysis types
+export interface StaticFinding {
+  type:
+    | "obfuscation"
+    | "eval"
+    | "dynamic_injection"
+    | "keylogging"
+    | "form_scraping"
+    | "crypto_mining"
+    | "exfiltration_endpoint";
+  severity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+  description: string;
+  evidence: string;
+}
+
+export interface StaticAnalysis {
+  size: number;
+  truncated: boolean;
+  findings: StaticFinding[];
+  endpoints: string[];
+}
+
+// Subresource Integrity audit
+export interface SriFinding {
+  status: "present" | "missing" | "mismatch" | "not_applicable" | "unknown";
+  isCdn: boolean;
+  integrity?: string;
+  crossorigin?: string;
+  // sha384 of the body fetched by the Worker
+  computedIntegrity?: string;
+  // Ready-to-paste attributes for scripts that should carry SRI
+  suggestedAttributes?: string;
+  message: string;
 }
 
 export interface ScriptAnalysis {
@@ -35,6 +186,178 @@ export interface ScriptAnalysis {
   reasoning: string;
   recommendation: "ALLOW" | "MONITOR" | "BLOCK";
   userFriendlyExplanation: string;
+  behavior?: ScriptBehavior;
+  staticAnalysis?: StaticAnalysis;
+  sri?: SriFinding;
+  // sha256 of the fetched script body, used to spot silent changes
+  contentHash?: string;
+  // Script on the same host whose AI classification this one reuses
+  classifiedWith?: string;
+  // Verdict came from the KV cache instead of a fresh classification
+  cacheHit?: boolean;
+  // Verdict was set by an admin override
+  cacheOverride?: boolean;
+  // Known-service signature the script matched
+  signature?: SignatureMatch;
+  // Where the verdict came from before scoring
+  verdictSource?:
+    | "first_party"
+    | "framework"
+    | "signature"
+    | "ai"
+    | "fallback"
+    | "override";
+  riskScore?: RiskScore;
+  // What a consent banner would have to ask permission for
+  consentPurpose?: ConsentPurpose;
+  pages?: string[];
+  journeyStep?: number;
+  // Canary field access observed at runtime; always CRITICAL
+  fieldAccess?: FieldAccessFinding[];
+  // Fingerprinting techniques observed at runtime, with their evidence
+  // also listed in dataCollected
+  fingerprinting?: FingerprintReport;
+}
+
+// One signal's contribution to a risk score
+export interface ScoreFactor {
+  id: string;
+  label: string;
+  points: number;
+  detail?: string;
+}
+
+// 0-100 score behind a script's risk level
+export interface RiskScore {
+  score: number;
+  factors: ScoreFactor[];
+}
+
+// Known-service signature types
+export type SignatureCategory =
+  | "payments"
+  | "analytics"
+  | "advertising"
+  | "social"
+  | "tag_manager"
+  | "cdn"
+  | "support"
+  | "other";
+
+export interface ServiceSignature {
+  id: string;
+  // Matches this host and its subdomains
+  domain: string;
+  // Optional path globs (* matches anything); any one must match
+  paths?: string[];
+  scriptName: string;
+  vendor: string;
+  category: SignatureCategory;
+  purpose: string;
+  dataCollected: string[];
+  riskLevel: ScriptAnalysis["riskLevel"];
+  recommendation: ScriptAnalysis["recommendation"];
+  reasoning?: string;
+  privacyPolicy?: string;
+}
+
+export interface SignatureSet {
+  version: string;
+  updatedAt: number;
+  signatures: ServiceSignature[];
+}
+
+export interface SignatureMatch {
+  id: string;
+  vendor: string;
+  category: SignatureCategory;
+  privacyPolicy?: string;
+  // Version of the signature set that matched
+  version: string;
+}
+
+// The classification part of an analysis, as stored in the verdict cache
+export type ScriptVerdict = Pick<
+  ScriptAnalysis,
+  | "scriptName"
+  | "purpose"
+  | "dataCollected"
+  | "riskLevel"
+  | "reasoning"
+  | "recommendation"
+  | "userFriendlyExplanation"
+>;
+
+// How AI classifications went, per scan and in aggregate
+export interface AiTelemetry {
+  // Classifications requested
+  calls: number;
+  // Model requests, including retries
+  attempts: number;
+  // Accepted on the first attempt without repairs
+  validFirstTry: number;
+  // Accepted after fixing small schema slips
+  repaired: number;
+  // Needed at least one retry
+  retried: number;
+  // Gave up and used the placeholder verdict
+  fallbacks: number;
+  // Start of the aggregate window (aggregate only)
+  since?: number;
+}
+
+export interface CachedVerdict {
+  verdict: ScriptVerdict;
+  // Hash of the body the verdict was made for
+  contentHash?: string;
+  cachedAt: number;
+  override: boolean;
+}
+
+// A script that was not (fully) analyzed, and why
+export interface SkippedScript {
+  url: string;
+  reason: "script_limit" | "ai_budget" | "ai_error";
+  message: string;
+}
+
+// Inline and injected script types
+export interface InlineScript {
+  hash: string;
+  kind: "inline" | "handler";
+  content: string;
+  length: number;
+  // Content dropped to keep the stored result small
+  contentOmitted?: boolean;
+  dynamic: boolean;
+  injectedBy?: string;
+  staticAnalysis?: StaticAnalysis;
+}
+
+export interface ScriptInjection {
+  // Script URL, or the hash of an inline script
+  script: string;
+  injectedBy?: string;
+  timestamp: number;
+}
+
+// Dependency graph types
+export interface DependencyNode {
+  // Script URL, inline script hash, or the page URL for the root
+  id: string;
+  type: "page" | "script" | "inline";
+  host: string;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyGraph {
+  root: string;
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
 }
 
 export interface AnalysisResult {
@@ -43,8 +366,345 @@ export interface AnalysisResult {
   totalScripts: number;
   thirdPartyScripts: number;
   scripts: ScriptInfo[];
+  inlineScripts?: InlineScript[];
+  injections?: ScriptInjection[];
+  dependencyGraph?: DependencyGraph;
   analyses?: ScriptAnalysis[];
-  summary?: string;
+  skippedScripts?: SkippedScript[];
+  // Domains treated as first-party for this scan
+  ownDomains?: string[];
+  // Origins other than the page's that served first-party scripts
+  // (static.example.com, own CDNs); 'self' in a CSP doesn't cover them
+  firstPartyOrigins?: string[];
+  aiTelemetry?: AiTelemetry;
+  summary?: SiteSummary;
+  compliance?: ComplianceReport;
+  consentComparison?: ConsentComparison;
+  // Set in crawl mode; the first entry is the start URL
+  pages?: CrawledPage[];
+  journey?: JourneyStepResult[];
+  network?: OutboundRequest[];
+  // Outbound requests seen, including any past the recording limit
+  networkTotal?: number;
+  networkTruncated?: boolean;
+  // Set by the Durable Object when the result is stored
+  id?: string;
+  scannedAt?: number;
+  // Chunk counts of fields stored under their own keys; removed on read
+  storedParts?: Record<string, number>;
+}
+
+// Privacy compliance audit of the page as loaded with no consent given
+export type ConsentPurpose =
+  | "necessary"
+  | "functional"
+  | "analytics"
+  | "advertising"
+  | "social"
+  | "unknown";
+
+// Consent management platform and the IAB APIs it exposes
+export interface CmpDetection {
+  detected: boolean;
+  name?: string;
+  tcf: boolean;
+  gpp: boolean;
+  usp: boolean;
+  tcfCmpId?: number;
+  gdprApplies?: boolean;
+  // TCF purposes already consented to before any interaction
+  preGrantedPurposes?: number;
+  gppSections?: string[];
+  uspString?: string;
+}
+
+export interface PreConsentCookie {
+  name: string;
+  domain: string;
+  thirdParty: boolean;
+  purpose: ConsentPurpose;
+  // Seconds since epoch; absent for session cookies
+  expires?: number;
+  // Script whose host set or owns the cookie, when we can tell
+  scriptUrl?: string;
+}
+
+export interface ComplianceFinding {
+  id: string;
+  severity: "LOW" | "MEDIUM" | "HIGH";
+  regulations: ("GDPR" | "CCPA")[];
+  title: string;
+  detail: string;
+  scriptUrl?: string;
+  cookie?: string;
+}
+
+export interface ComplianceReport {
+  cmp: CmpDetection;
+  cookies: PreConsentCookie[];
+  findings: ComplianceFinding[];
+}
+
+// Two loads of the same page, before and after consent
+export interface ConsentDiff {
+  afterConsentOnly: string[];
+  regardless: string[];
+  beforeConsentOnly: string[];
+}
+
+export interface ConsentComparison {
+  // False when no banner could be accepted; the diff then shows noise only
+  consentGiven: boolean;
+  method: "banner" | "cookie";
+  // CMP API, selector, button text or cookie names used
+  acceptedWith?: string;
+  // Third-party script URLs
+  scripts: ConsentDiff;
+  // "name (domain)"
+  cookies: ConsentDiff;
+  // Third-party hosts contacted
+  destinations: ConsentDiff;
+}
+
+// Site-level rollup of the per-script analyses
+export interface SiteConcern {
+  scriptUrl: string;
+  scriptName: string;
+  riskLevel: ScriptAnalysis["riskLevel"];
+  recommendation: ScriptAnalysis["recommendation"];
+  score?: number;
+  reason: string;
+}
+
+export interface SiteDataCategory {
+  category: string;
+  scripts: number;
+}
+
+// Hosts receiving data, grouped by vendor or registrable domain
+export interface SiteDestination {
+  organization: string;
+  hosts: string[];
+  scripts: number;
+}
+
+export interface SiteSummary {
+  grade: "A" | "B" | "C" | "D" | "F";
+  gradeReason: string;
+  riskCounts: Record<ScriptAnalysis["riskLevel"], number>;
+  recommendationCounts: Record<ScriptAnalysis["recommendation"], number>;
+  topConcerns: SiteConcern[];
+  dataCategories: SiteDataCategory[];
+  destinations: SiteDestination[];
+  executiveSummary?: string;
+  executiveSummarySource?: "ai" | "generated";
+  generatedAt: number;
+}
+
+// Entry in the paginated analysis history
+export interface AnalysisListItem {
+  id: string;
+  url: string;
+  host: string;
+  scannedAt: number;
+  totalScripts: number;
+  thirdPartyScripts: number;
+  riskCounts: Record<ScriptAnalysis["riskLevel"], number>;
+  grade?: SiteSummary["grade"];
+}
+
+// Historical diff types
+export interface ScriptChange {
+  scriptUrl: string;
+  scriptName: string;
+  from: string;
+  to: string;
+}
+
+export interface AnalysisDiff {
+  url: string;
+  fromScannedAt?: number;
+  toScannedAt?: number;
+  added: string[];
+  removed: string[];
+  riskChanged: ScriptChange[];
+  contentChanged: ScriptChange[];
+  inlineAdded: string[];
+  inlineRemoved: string[];
+}
+
+// Per-scan settings, stored with async jobs and watches
+export interface ScanOptions {
+  // Domains we operate besides the page's own site (CDNs, asset hosts)
+  ownDomains?: string[];
+  // Load the page a second time with consent given and compare
+  compareConsent?: boolean;
+  // Set before the second load instead of clicking the banner
+  consentCookies?: ConsentCookie[];
+  // Follow same-site links from the start URL
+  crawl?: CrawlOptions;
+  // Steps run on the start page before crawling further. Typed secrets
+  // are referenced by credential name and supplied per scan, never here.
+  journey?: JourneyStep[];
+}
+
+export type JourneyStep =
+  | { action: "navigate"; url: string }
+  | { action: "click"; selector: string; timeoutMs?: number }
+  | { action: "type"; selector: string; value?: string; credential?: string }
+  | { action: "waitFor"; selector: string; timeoutMs?: number };
+
+export interface JourneyStepResult {
+  // 1-based position in the journey
+  step: number;
+  description: string;
+  status: "ok" | "failed" | "skipped";
+  error?: string;
+  // Page URL after the step
+  url?: string;
+  // Scripts first requested during this step
+  newScripts: string[];
+  runtimeEvents: number;
+}
+
+export interface CrawlOptions {
+  // Link hops from the start URL
+  maxDepth: number;
+  // Including the start URL
+  maxPages: number;
+  // Path globs (* matches anything); links must match one include pattern
+  // if any are given, and no exclude pattern
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: "scanned" | "failed";
+  // Distinct scripts (first- and third-party) the page loaded
+  scripts: number;
+  error?: string;
+}
+
+export interface ConsentCookie {
+  name: string;
+  value: string;
+  // Defaults to the scanned page's host
+  domain?: string;
+  path?: string;
+}
+
+// Async scan job types
+export type ScanProgress =
+  | { type: "page_loaded"; url: string; pagesLoaded: number }
+  | { type: "journey_step"; step: JourneyStepResult }
+  | { type: "scripts_found"; partial: AnalysisResult; toAnalyze: number }
+  | {
+      type: "script_analyzed";
+      analysis: ScriptAnalysis;
+      analyzed: number;
+      total: number;
+    };
+
+// Terminal event of a finished job. Only the id and headline; the stored
+// result is fetched separately, as events are kept in one storage value each.
+export interface ScanDone {
+  type: "done";
+  analysisId: string;
+  url: string;
+  grade?: SiteSummary["grade"];
+}
+
+export type ScanEvent = (
+  | { type: "queued" }
+  | ScanProgress
+  | ScanDone
+  | { type: "error"; message: string }
+) & {
+  seq: number;
+  timestamp: number;
+};
+
+export interface ScanJob {
+  id: string;
+  url: string;
+  options?: ScanOptions;
+  status: "queued" | "running" | "done" | "error";
+  createdAt: number;
+  updatedAt: number;
+  // Id of the stored analysis once the job is done
+  analysisId?: string;
+  error?: string;
+}
+
+// Scheduled monitoring types
+export interface WatchedSite {
+  id: string;
+  url: string;
+  intervalMinutes: number;
+  enabled: boolean;
+  options?: ScanOptions;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastStatus?: "ok" | "error";
+  lastError?: string;
+  // Storage key of the most recent scan
+  lastAnalysisKey?: string;
+  // Changes compared with the scan before it
+  lastDiff?: AnalysisDiff;
+}
+
+// Webhook alerting types
+export interface AlertEvent {
+  type: "new_script" | "risk_escalated" | "blocked";
+  scriptUrl: string;
+  scriptName?: string;
+  riskLevel?: ScriptAnalysis["riskLevel"];
+  recommendation?: ScriptAnalysis["recommendation"];
+  // Previous risk level or recommendation, when there was one
+  previous?: string;
+  message: string;
+}
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  format: "generic" | "slack";
+  // Shared secret for the X-Sentinel-Signature HMAC
+  secret: string;
+  events: AlertEvent["type"][];
+  // Only alert for these hosts; empty means every site
+  hosts: string[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface WebhookDelivery {
+  webhookId: string;
+  site: string;
+  alertCount: number;
+  attempts: number;
+  status: "delivered" | "failed";
+  responseStatus?: number;
+  error?: string;
+  createdAt: number;
+}
+
+// Content Security Policy types
+export interface CspExclusion {
+  source: string;
+  reason: string;
+}
+
+export interface CspPolicy {
+  directives: Record<string, string[]>;
+  enforce: string;
+  reportOnly: string;
+  excluded: CspExclusion[];
+  notes: string[];
+  nonceGuidance: string;
 }
 
 export interface ChatMessage {
@@ -59,12 +719,25 @@ export interface ChatResponse {
 
 // Runtime monitoring types
 export interface RuntimeEvent {
-  type: "cookie_read" | "cookie_write" | "localStorage_write" | "fetch";
+  type:
+    | "cookie_read"
+    | "cookie_write"
+    | "localStorage_write"
+    | "fetch"
+    | "xhr"
+    | "beacon"
+    | "websocket"
+    | "fingerprint";
   timestamp: number;
   stack?: string;
   url?: string;
+  method?: string;
   value?: string;
   key?: string;
+  // Set on fingerprint events
+  technique?: FingerprintTechnique;
+  api?: string;
+  scriptUrl?: string;
 }
 
 export interface ChatMessage {
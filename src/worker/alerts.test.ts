@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult, ScriptAnalysis } from "../types";
+import { detectAlerts } from "./alerts";
+
+function verdict(
+  scriptUrl: string,
+  overrides: Partial<ScriptAnalysis> = {}
+): ScriptAnalysis {
+  return {
+    scriptUrl,
+    scriptName: "Widget",
+    purpose: "",
+    dataCollected: [],
+    destinations: [],
+    riskLevel: "LOW",
+    reasoning: "Sends card numbers to evil.top",
+    recommendation: "ALLOW",
+    userFriendlyExplanation: "",
+    ...overrides,
+  };
+}
+
+function scan(analyses: ScriptAnalysis[]): AnalysisResult {
+  return {
+    success: true,
+    url: "https://shop.example.com/",
+    totalScripts: analyses.length,
+    thirdPartyScripts: analyses.length,
+    scripts: analyses.map((a) => ({ url: a.scriptUrl, timestamp: 0 })),
+    analyses,
+  };
+}
+
+const blocked = { riskLevel: "CRITICAL", recommendation: "BLOCK" } as const;
+
+describe("detectAlerts", () => {
+  it("alerts on new scripts but not on a bumped cache buster", () => {
+    const alerts = detectAlerts(
+      scan([verdict("https://cdn.vendor.com/w.js?v=1")]),
+      scan([
+        verdict("https://cdn.vendor.com/w.js?v=2"),
+        verdict("https://new.vendor.com/n.js", { scriptName: "Newcomer" }),
+      ])
+    );
+
+    expect(alerts).toEqual([
+      {
+        type: "new_script",
+        scriptUrl: "https://new.vendor.com/n.js",
+        scriptName: "Newcomer",
+        riskLevel: "LOW",
+        recommendation: "ALLOW",
+        message: "New script detected: Newcomer",
+      },
+    ]);
+  });
+
+  it("only raises risk alerts on a first scan", () => {
+    const alerts = detectAlerts(
+      undefined,
+      scan([
+        verdict("https://cdn.vendor.com/w.js"),
+        verdict("https://evil.top/skim.js", blocked),
+      ])
+    );
+
+    expect(alerts.map((a) => a.type)).toEqual(["risk_escalated", "blocked"]);
+  });
+
+  it("alerts when a script escalates to HIGH or CRITICAL", () => {
+    const url = "https://cdn.vendor.com/w.js";
+    const alerts = detectAlerts(
+      scan([verdict(url, { riskLevel: "MEDIUM" })]),
+      scan([verdict(url, { riskLevel: "HIGH", recommendation: "MONITOR" })])
+    );
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      type: "risk_escalated",
+      previous: "MEDIUM",
+      message: "Widget is now HIGH risk (was MEDIUM)",
+    });
+  });
+
+  it("stays quiet while a script keeps the same verdict", () => {
+    const url = "https://evil.top/skim.js";
+
+    expect(
+      detectAlerts(scan([verdict(url, blocked)]), scan([verdict(url, blocked)]))
+    ).toEqual([]);
+  });
+
+  it("alerts when a known script should now be blocked", () => {
+    const url = "https://cdn.vendor.com/w.js";
+    const alerts = detectAlerts(
+      scan([
+        verdict(url, { riskLevel: "CRITICAL", recommendation: "MONITOR" }),
+      ]),
+      scan([verdict(url, blocked)])
+    );
+
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        type: "blocked",
+        previous: "MONITOR",
+        message: "Widget should now be blocked: Sends card numbers to evil.top",
+      }),
+    ]);
+  });
+});
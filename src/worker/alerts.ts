@@ -0,0 +1,200 @@
+import type {
+  AlertEvent,
+  AnalysisResult,
+  ScriptAnalysis,
+  WebhookDelivery,
+  WebhookTarget,
+} from "../types";
+import { normalizeScriptUrl } from "./cache";
+import { compareSeverity } from "./static-analysis";
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const DELIVERY_TIMEOUT_MS = 10000;
+
+const ESCALATED_LEVELS: ScriptAnalysis["riskLevel"][] = ["HIGH", "CRITICAL"];
+
+// Compare a new scan with the previous one and list what deserves an alert.
+// Without a previous scan every script is "new", so only risk alerts fire.
+// Scripts are matched on normalized URLs, so a bumped ?v= is not "new".
+export function detectAlerts(
+  previous: AnalysisResult | undefined,
+  current: AnalysisResult
+): AlertEvent[] {
+  const alerts: AlertEvent[] = [];
+  const before = new Map(
+    (previous?.analyses || []).map((a) => [
+      normalizeScriptUrl(a.scriptUrl),
+      a,
+    ])
+  );
+  const analyses = new Map(
+    (current.analyses || []).map((a) => [a.scriptUrl, a])
+  );
+
+  if (previous) {
+    const known = new Set(
+      previous.scripts.map((s) => normalizeScriptUrl(s.url))
+    );
+    for (const script of current.scripts) {
+      if (known.has(normalizeScriptUrl(script.url))) continue;
+      const analysis = analyses.get(script.url);
+      alerts.push({
+        type: "new_script",
+        scriptUrl: script.url,
+        scriptName: analysis?.scriptName,
+        riskLevel: analysis?.riskLevel,
+        recommendation: analysis?.recommendation,
+        message: `New script detected: ${analysis?.scriptName || script.url}`,
+      });
+    }
+  }
+
+  for (const analysis of analyses.values()) {
+    const old = before.get(normalizeScriptUrl(analysis.scriptUrl));
+
+    const escalated =
+      ESCALATED_LEVELS.includes(analysis.riskLevel) &&
+      (!old || compareSeverity(analysis.riskLevel, old.riskLevel) > 0);
+
+    if (escalated) {
+      alerts.push({
+        type: "risk_escalated",
+        scriptUrl: analysis.scriptUrl,
+        scriptName: analysis.scriptName,
+        riskLevel: analysis.riskLevel,
+        recommendation: analysis.recommendation,
+        previous: old?.riskLevel,
+        message: `${analysis.scriptName} is now ${analysis.riskLevel} risk${
+          old ? ` (was ${old.riskLevel})` : ""
+        }`,
+      });
+    }
+
+    if (
+      analysis.recommendation === "BLOCK" &&
+      old?.recommendation !== "BLOCK"
+    ) {
+      alerts.push({
+        type: "blocked",
+        scriptUrl: analysis.scriptUrl,
+        scriptName: analysis.scriptName,
+        riskLevel: analysis.riskLevel,
+        recommendation: analysis.recommendation,
+        previous: old?.recommendation,
+        message: `${analysis.scriptName} should now be blocked: ${analysis.reasoning}`,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+// Helper: Body in the target's format
+function formatPayload(
+  target: WebhookTarget,
+  site: string,
+  alerts: AlertEvent[]
+): unknown {
+  if (target.format === "slack") {
+    const lines = alerts.map(
+      (alert) => `• *${alert.type.replace("_", " ")}*: ${alert.message}`
+    );
+    return {
+      text: `:rotating_light: Script Sentinel found ${alerts.length} issue(s) on ${site}\n${lines.join("\n")}`,
+    };
+  }
+
+  return {
+    event: "script_sentinel.alert",
+    site,
+    sentAt: Date.now(),
+    alerts,
+  };
+}
+
+// Helper: Hex HMAC-SHA256 of "<timestamp>.<body>"
+export async function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// POST alerts to one target, retrying network errors, 429s and 5xx with
+// exponential backoff. Other 4xx responses are final.
+export async function deliverWebhook(
+  target: WebhookTarget,
+  site: string,
+  alerts: AlertEvent[]
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(formatPayload(target, site, alerts));
+  const delivery: WebhookDelivery = {
+    webhookId: target.id,
+    site,
+    alertCount: alerts.length,
+    attempts: 0,
+    status: "failed",
+    createdAt: Date.now(),
+  };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    delivery.attempts = attempt;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    try {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ScriptSentinel-Webhook/1.0",
+          "X-Sentinel-Timestamp": timestamp,
+          "X-Sentinel-Signature": `sha256=${await signPayload(
+            target.secret,
+            timestamp,
+            body
+          )}`,
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      delivery.responseStatus = response.status;
+      if (response.ok) {
+        delivery.status = "delivered";
+        delivery.error = undefined;
+        return delivery;
+      }
+
+      delivery.error = `HTTP ${response.status}`;
+      if (response.status !== 429 && response.status < 500) {
+        return delivery;
+      }
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, BASE_BACKOFF_MS * 2 ** (attempt - 1))
+      );
+    }
+  }
+
+  return delivery;
+}
@@ -1,22 +1,47 @@
-import type { Env, ScriptInfo, ScriptAnalysis } from "../types";
+import type {
+  AiTelemetry,
+  Env,
+  ScriptInfo,
+  ScriptAnalysis,
+  ScriptBehavior,
+  SignatureSet,
+  SkippedScript,
+  StaticAnalysis,
+} from "../types";
+import {
+  analyzeSource,
+  corroborateFindings,
+  fetchScriptSource,
+} from "./static-analysis";
+import { auditSri } from "./sri";
+import { hashScript } from "./collector";
+import { createLimiter } from "./limiter";
+import { lookupVerdict, storeVerdict } from "./cache";
+import { loadSignatures, matchSignature } from "./signatures";
+import {
+  createAiTelemetry,
+  parseVerdict,
+  VERDICT_JSON_SCHEMA,
+} from "./verdict";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+import { scoreScript } from "./scoring";
 
-// Helper: Check if script is first-party
-function isFirstParty(scriptUrl: string, pageDomain: string): boolean {
-  try {
-    const scriptDomain = new URL(scriptUrl).hostname;
-    const pageBase = pageDomain.replace(/^www\./, "");
-    const scriptBase = scriptDomain.replace(/^www\./, "");
-
-    // Same domain or subdomain
-    return (
-      scriptBase === pageBase ||
-      scriptBase.endsWith("." + pageBase) ||
-      pageBase.endsWith("." + scriptBase)
-    );
-  } catch {
-    return false;
-  }
-}
+// Scripts analyzed per scan; the rest are listed as skipped
+export const MAX_SCRIPTS_PER_SCAN = 150;
+// AI classifications per scan, one per unrecognized host
+const MAX_AI_CALLS_PER_SCAN = 15;
+// Parallel AI calls and source downloads
+const AI_CONCURRENCY = 3;
+// Model requests per classification, counting repair retries
+const MAX_AI_ATTEMPTS = 2;
+const FETCH_CONCURRENCY = 6;
+// Behavior kept per script in the stored result, which must stay under
+// the 128 KiB value limit even after a crawl of a chatty page. Counts,
+// destinations and scoring still see everything.
+const MAX_STORED_FETCH_CALLS = 50;
+const MAX_STORED_FETCH_URL = 300;
+const MAX_STORED_DESTINATIONS = 25;
+const MAX_STORED_FIELD_ACCESS = 20;
 
 // Helper: Check if it's a known framework/CDN
 function isKnownFramework(scriptUrl: string): boolean {
@@ -33,182 +58,363 @@ function isKnownFramework(scriptUrl: string): boolean {
   return frameworkPatterns.some((pattern) => scriptUrl.includes(pattern));
 }
 
-// Expanded database of known services
-const KNOWN_SERVICES: Record<string, Partial<ScriptAnalysis>> = {
-  // Payment Gateways
-  "razorpay.com": {
-    scriptName: "Razorpay Payment Gateway",
-    purpose: "Secure payment processing for Indian market",
-    dataCollected: ["payment details", "transaction data", "contact info"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-    reasoning: "Legitimate payment gateway used by thousands of businesses",
-  },
-  "stripe.com": {
-    scriptName: "Stripe Payment Gateway",
-    purpose: "Payment processing",
-    dataCollected: ["payment details", "transaction data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-  "paypal.com": {
-    scriptName: "PayPal",
-    purpose: "Payment processing",
-    dataCollected: ["payment details", "transaction data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-
-  // Analytics
-  "google-analytics.com": {
-    scriptName: "Google Analytics",
-    purpose: "Website analytics and tracking",
-    dataCollected: ["page views", "user behavior", "device info"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-  "googletagmanager.com": {
-    scriptName: "Google Tag Manager",
-    purpose: "Tag management system",
-    dataCollected: ["page views", "events", "user interactions"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-
-  // Social Media
-  "facebook.net": {
-    scriptName: "Facebook Pixel",
-    purpose: "Advertising and conversion tracking",
-    dataCollected: ["page views", "events", "user behavior"],
-    riskLevel: "MEDIUM",
-    recommendation: "MONITOR",
-    reasoning: "Tracks user behavior for advertising purposes",
-  },
-  "connect.facebook.net": {
-    scriptName: "Facebook SDK",
-    purpose: "Social login and sharing",
-    dataCollected: ["profile data", "social interactions"],
-    riskLevel: "MEDIUM",
-    recommendation: "MONITOR",
-  },
+// Helper: Describe observed runtime behavior for the AI prompt
+function describeBehavior(behavior: ScriptBehavior | undefined): string {
+  if (!behavior) {
+    return "No runtime activity was observed for this script.";
+  }
 
-  // Ads
-  "doubleclick.net": {
-    scriptName: "Google DoubleClick",
-    purpose: "Ad serving and tracking",
-    dataCollected: ["browsing behavior", "ad interactions"],
-    riskLevel: "MEDIUM",
-    recommendation: "MONITOR",
-  },
-  "googlesyndication.com": {
-    scriptName: "Google AdSense",
-    purpose: "Display advertisements",
-    dataCollected: ["browsing context", "ad performance"],
-    riskLevel: "MEDIUM",
-    recommendation: "MONITOR",
-  },
-
-  // CDNs
-  "ajax.googleapis.com": {
-    scriptName: "Google CDN",
-    purpose: "Content delivery (libraries)",
-    dataCollected: ["basic request data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-  "cdn.jsdelivr.net": {
-    scriptName: "jsDelivr CDN",
-    purpose: "Content delivery network",
-    dataCollected: ["basic request data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-  "cdnjs.cloudflare.com": {
-    scriptName: "Cloudflare CDN",
-    purpose: "Content delivery network",
-    dataCollected: ["basic request data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-  "unpkg.com": {
-    scriptName: "UNPKG CDN",
-    purpose: "NPM package CDN",
-    dataCollected: ["basic request data"],
-    riskLevel: "LOW",
-    recommendation: "ALLOW",
-  },
-};
-
-export async function analyzeScript(
-  script: ScriptInfo,
-  pageDomain: string,
-  env: Env
-): Promise<ScriptAnalysis> {
+  const destinations = (behavior.destinations || []).map((d) => {
+    const identifiers = d.identifiers.length
+      ? `, carrying ${d.identifiers.join("/")}`
+      : "";
+    return `${d.host} (${d.requests} ${d.kinds.join("/")}, ${
+      d.payloadBytes
+    } bytes${identifiers})`;
+  });
+
+  const fieldAccess = (behavior.fieldAccess || []).map(
+    (finding) => `${finding.description} (${finding.evidence})`
+  );
+  const fingerprinting = behavior.fingerprinting
+    ? `${behavior.fingerprinting.techniques
+        .map((t) => t.evidence)
+        .join("; ")} (score ${behavior.fingerprinting.score}/100)`
+    : "none";
+
+  return `Cookie reads: ${behavior.cookieReads}
+Cookie writes: ${behavior.cookieWrites}
+localStorage writes: ${behavior.localStorageWrites}
+Network requests (fetch/XHR/beacon/WebSocket): ${behavior.fetchCalls.length}
+Data sent to: ${destinations.join("; ") || "none observed"}
+Form field access with canary values: ${fieldAccess.join("; ") || "none"}
+Fingerprinting: ${fingerprinting}`;
+}
+
+function safeHostname(url: string): string {
   try {
-    const scriptDomain = new URL(script.url).hostname;
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
 
-    // Check if first-party
-    if (isFirstParty(script.url, pageDomain)) {
-      return {
+// Helper: Fold what the script actually did on the page into its verdict;
+// scoreScript decides what it means for the risk level. Destinations are
+// only hosts the script was seen sending requests to, never a guess.
+// Field access and fingerprinting move up onto the analysis itself, and
+// fingerprinting evidence joins dataCollected.
+function applyBehavior(
+  analysis: ScriptAnalysis,
+  behavior: ScriptBehavior | undefined
+): ScriptAnalysis {
+  if (!behavior) return { ...analysis, destinations: [] };
+
+  const destinations = new Set<string>();
+  for (const destination of behavior.destinations || []) {
+    destinations.add(destination.host);
+  }
+  for (const call of behavior.fetchCalls) {
+    const host = safeHostname(call.url);
+    if (host) destinations.add(host);
+  }
+
+  const { fieldAccess, fingerprinting, ...observed } = behavior;
+  return {
+    ...analysis,
+    dataCollected: [
+      ...analysis.dataCollected,
+      ...(fingerprinting?.techniques.map((t) => t.evidence) || []),
+    ],
+    destinations: Array.from(destinations),
+    behavior: {
+      ...observed,
+      fetchCalls: observed.fetchCalls
+        .slice(0, MAX_STORED_FETCH_CALLS)
+        .map((call) => ({
+          ...call,
+          url: call.url.slice(0, MAX_STORED_FETCH_URL),
+        })),
+      fetchCallCount: observed.fetchCalls.length,
+      destinations: observed.destinations?.slice(0, MAX_STORED_DESTINATIONS),
+    },
+    fieldAccess: fieldAccess?.slice(0, MAX_STORED_FIELD_ACCESS),
+    fingerprinting,
+  };
+}
+
+// Helper: Describe static source findings for the AI prompt
+function describeStaticAnalysis(
+  staticAnalysis: StaticAnalysis | undefined
+): string {
+  if (!staticAnalysis) {
+    return "Source code could not be downloaded.";
+  }
+
+  const findings = staticAnalysis.findings
+    .map((f) => `- [${f.severity}] ${f.description}: ${f.evidence}`)
+    .join("\n");
+
+  return `Size: ${staticAnalysis.size} bytes${
+    staticAnalysis.truncated ? " (truncated)" : ""
+  }
+Hard-coded external endpoints: ${
+    staticAnalysis.endpoints.slice(0, 10).join(", ") || "none"
+  }
+Findings:
+${findings || "- none"}`;
+}
+
+export interface ScriptAnalysisBatch {
+  analyses: ScriptAnalysis[];
+  skipped: SkippedScript[];
+  telemetry: AiTelemetry;
+}
+
+// Outcome of classifying one host, shared by all of its scripts
+interface HostVerdict {
+  analysis: ScriptAnalysis;
+  scriptUrl: string;
+  skipped?: Omit<SkippedScript, "url">;
+}
+
+// Analyze every third-party script of a page. Source checks run per script;
+// unrecognized hosts are classified by the AI once each, within a per-scan
+// budget. Whatever doesn't get the full treatment is reported in `skipped`.
+export async function analyzeScripts(
+  scripts: ScriptInfo[],
+  scope: FirstPartyScope,
+  env: Env,
+  behaviors: Map<string, ScriptBehavior>,
+  onAnalyzed: (analysis: ScriptAnalysis) => unknown = () => {}
+): Promise<ScriptAnalysisBatch> {
+  const unique = Array.from(
+    new Map(scripts.map((script) => [script.url, script])).values()
+  );
+  const queued = unique.slice(0, MAX_SCRIPTS_PER_SCAN);
+  const skipped: SkippedScript[] = unique
+    .slice(MAX_SCRIPTS_PER_SCAN)
+    .map((script) => ({
+      url: script.url,
+      reason: "script_limit",
+      message: `Not analyzed: the limit of ${MAX_SCRIPTS_PER_SCAN} scripts per scan was reached`,
+    }));
+
+  const signatures = await loadSignatures(env.CACHE);
+  const limitFetch = createLimiter(FETCH_CONCURRENCY);
+  const limitAi = createLimiter(AI_CONCURRENCY);
+  const hostVerdicts = new Map<string, Promise<HostVerdict>>();
+  let aiBudget = MAX_AI_CALLS_PER_SCAN;
+  const telemetry = createAiTelemetry();
+
+  const classifyHost = (
+    script: ScriptInfo,
+    behavior: ScriptBehavior | undefined,
+    staticAnalysis: StaticAnalysis | undefined
+  ): Promise<HostVerdict> => {
+    const host = safeHostname(script.url);
+    const existing = hostVerdicts.get(host);
+    if (existing) return existing;
+
+    let verdict: Promise<HostVerdict>;
+    if (aiBudget > 0) {
+      aiBudget--;
+      verdict = limitAi(() =>
+        classifyWithAi(script, env, behavior, staticAnalysis, telemetry)
+      )
+        .then((analysis) => ({ analysis, scriptUrl: script.url }))
+        .catch((error) => {
+          console.error("[AI Analysis Failed]", script.url, error);
+          telemetry.fallbacks++;
+          return {
+            analysis: unrecognizedVerdict(script),
+            scriptUrl: script.url,
+            skipped: {
+              reason: "ai_error" as const,
+              message:
+                "AI classification failed; the verdict is based on source and runtime checks only",
+            },
+          };
+        });
+    } else {
+      verdict = Promise.resolve({
+        analysis: unrecognizedVerdict(script),
         scriptUrl: script.url,
-        scriptName: "First-Party Script",
-        purpose: "Part of the website's core functionality",
-        dataCollected: ["Website functionality data only"],
-        destinations: [scriptDomain],
-        riskLevel: "LOW",
-        reasoning: "This script is hosted on the same domain as the website",
-        recommendation: "ALLOW",
-        userFriendlyExplanation: `This script is part of ${pageDomain}'s own code and is necessary for the website to work properly. It's safe.`,
-      };
+        skipped: {
+          reason: "ai_budget",
+          message: `AI classification skipped: the budget of ${MAX_AI_CALLS_PER_SCAN} AI calls per scan was used up`,
+        },
+      });
     }
 
-    // Check if known framework
-    if (isKnownFramework(script.url)) {
-      return {
+    hostVerdicts.set(host, verdict);
+    return verdict;
+  };
+
+  const analyzeOne = async (script: ScriptInfo): Promise<ScriptAnalysis> => {
+    const behavior = behaviors.get(script.url);
+
+    // Static text analysis only; the downloaded source is never executed
+    const source = await limitFetch(() => fetchScriptSource(script.url));
+    const staticAnalysis = source
+      ? corroborateFindings(
+          analyzeSource(source, script.url, scope),
+          Boolean(behavior?.fieldAccess?.length)
+        )
+      : undefined;
+    const contentHash = source ? await hashScript(source.body) : undefined;
+
+    // Admin overrides beat everything; cached AI verdicts only stand in
+    // for scripts we don't already recognize
+    const cached = await lookupVerdict(env.CACHE, script.url, contentHash);
+    let analysis: ScriptAnalysis | null = cached?.override
+      ? null
+      : classifyKnown(script, scope, signatures);
+    if (cached && !analysis) {
+      analysis = {
+        ...cached.verdict,
         scriptUrl: script.url,
-        scriptName: "Web Framework Component",
-        purpose: "Powers website features and interactivity",
-        dataCollected: ["Browser compatibility data"],
-        destinations: [scriptDomain],
-        riskLevel: "LOW",
-        reasoning: "Standard web framework file (Next.js/React/Vue)",
-        recommendation: "ALLOW",
-        userFriendlyExplanation:
-          "This is a framework file that helps the website function. It's a standard component and safe.",
+        destinations: [safeHostname(script.url)],
+        verdictSource: cached.override ? "override" : "ai",
+        cacheHit: true,
+        cacheOverride: cached.override || undefined,
       };
     }
 
-    // Check expanded known services database
-    for (const [key, value] of Object.entries(KNOWN_SERVICES)) {
-      if (scriptDomain.includes(key)) {
-        return {
-          scriptUrl: script.url,
-          scriptName: value.scriptName || "Known Service",
-          purpose: value.purpose || "Third-party service",
-          dataCollected: value.dataCollected || [],
-          destinations: [scriptDomain],
-          riskLevel: value.riskLevel || "MEDIUM",
-          reasoning: value.reasoning || "Recognized third-party service",
-          recommendation: value.recommendation || "MONITOR",
-          userFriendlyExplanation: `This is ${
-            value.scriptName
-          }, commonly used for ${value.purpose}. ${
-            value.riskLevel === "LOW"
-              ? "It's generally safe."
-              : "Monitor for privacy concerns."
-          }`,
-        };
+    if (!analysis) {
+      const verdict = await classifyHost(script, behavior, staticAnalysis);
+      analysis = { ...verdict.analysis, scriptUrl: script.url };
+      if (verdict.scriptUrl !== script.url) {
+        analysis.classifiedWith = verdict.scriptUrl;
+      }
+      // A host verdict reused from another script is only cached under
+      // that script's URL and hash, not this one's
+      if (verdict.skipped) {
+        skipped.push({ url: script.url, ...verdict.skipped });
+      } else if (!analysis.classifiedWith) {
+        await storeVerdict(env.CACHE, analysis, contentHash);
       }
     }
 
-    // Use AI for truly unknown scripts
-    console.log(`[AI Analysis] Analyzing unknown script: ${script.url}`);
+    // Source and runtime checks always run fresh, even on a cache hit
+    const result = scoreScript(
+      {
+        ...applyBehavior(analysis, behavior),
+        staticAnalysis,
+        sri: await auditSri(script, source),
+        contentHash,
+      },
+      scope
+    );
+
+    await onAnalyzed(result);
+    return result;
+  };
+
+  const analyses = await Promise.all(queued.map(analyzeOne));
+  return { analyses, skipped, telemetry };
+}
+
+// Helper: Verdicts that need no AI call (first-party, framework files and
+// known-service signatures)
+function classifyKnown(
+  script: ScriptInfo,
+  scope: FirstPartyScope,
+  signatures: SignatureSet
+): ScriptAnalysis | null {
+  const scriptDomain = safeHostname(script.url);
+
+  // Check if first-party
+  if (isFirstParty(script.url, scope)) {
+    return {
+      scriptUrl: script.url,
+      scriptName: "First-Party Script",
+      purpose: "Part of the website's core functionality",
+      dataCollected: ["Website functionality data only"],
+      destinations: [scriptDomain],
+      riskLevel: "LOW",
+      reasoning: "This script is hosted on the same domain as the website",
+      recommendation: "ALLOW",
+      userFriendlyExplanation: `This script is part of ${scope.site}'s own code and is necessary for the website to work properly. It's safe.`,
+      verdictSource: "first_party",
+    };
+  }
+
+  // Check if known framework
+  if (isKnownFramework(script.url)) {
+    return {
+      scriptUrl: script.url,
+      scriptName: "Web Framework Component",
+      purpose: "Powers website features and interactivity",
+      dataCollected: ["Browser compatibility data"],
+      destinations: [scriptDomain],
+      riskLevel: "LOW",
+      reasoning: "Standard web framework file (Next.js/React/Vue)",
+      recommendation: "ALLOW",
+      userFriendlyExplanation:
+        "This is a framework file that helps the website function. It's a standard component and safe.",
+      verdictSource: "framework",
+    };
+  }
+
+  // Check the known-service signatures
+  const signature = matchSignature(script.url, signatures);
+  if (signature) {
+    return {
+      scriptUrl: script.url,
+      scriptName: signature.scriptName,
+      purpose: signature.purpose,
+      dataCollected: signature.dataCollected || [],
+      destinations: [scriptDomain],
+      riskLevel: signature.riskLevel,
+      reasoning:
+        signature.reasoning ||
+        `Recognized ${signature.category.replace("_", " ")} service from ${signature.vendor}`,
+      recommendation: signature.recommendation,
+      userFriendlyExplanation: `This is ${
+        signature.scriptName
+      }, commonly used for ${signature.purpose}. ${
+        signature.riskLevel === "LOW"
+          ? "It's generally safe."
+          : "Monitor for privacy concerns."
+      }`,
+      verdictSource: "signature",
+      signature: {
+        id: signature.id,
+        vendor: signature.vendor,
+        category: signature.category,
+        privacyPolicy: signature.privacyPolicy,
+        version: signatures.version,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Use AI for truly unknown scripts
+async function classifyWithAi(
+  script: ScriptInfo,
+  env: Env,
+  behavior: ScriptBehavior | undefined,
+  staticAnalysis: StaticAnalysis | undefined,
+  telemetry: AiTelemetry
+): Promise<ScriptAnalysis> {
+  telemetry.calls++;
+  const scriptDomain = new URL(script.url).hostname;
+  console.log(`[AI Analysis] Analyzing unknown script: ${script.url}`);
 
-    const prompt = `Analyze this third-party JavaScript and respond with ONLY valid JSON:
+  const prompt = `Analyze this third-party JavaScript and respond with ONLY valid JSON:
 
 Script URL: ${script.url}
 Domain: ${scriptDomain}
 
+Observed runtime behavior on the page:
+${describeBehavior(behavior)}
+
+Static analysis of the script source:
+${describeStaticAnalysis(staticAnalysis)}
+
 Determine:
 1. What service is this? (name)
 2. What does it do? (purpose)
@@ -227,51 +433,90 @@ JSON format:
   "userFriendlyExplanation": "Plain English explanation"
 }`;
 
-    const response: any = await env.AI.run(
-      "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
-      {
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a cybersecurity expert. Respond with valid JSON only.",
+  const messages: RoleScopedChatInput[] = [
+    {
+      role: "system",
+      content: "You are a cybersecurity expert. Respond with valid JSON only.",
+    },
+    { role: "user", content: prompt },
+  ];
+  let errors: string[] = [];
+
+  // Validate every reply; show the model what was wrong and let it retry
+  for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+    telemetry.attempts++;
+    if (attempt === 2) telemetry.retried++;
+
+    let raw: unknown;
+    try {
+      const response: any = await env.AI.run(
+        "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+        {
+          messages,
+          temperature: attempt === 1 ? 0.3 : 0.1,
+          max_tokens: 600,
+          response_format: {
+            type: "json_schema",
+            json_schema: VERDICT_JSON_SCHEMA,
           },
-          { role: "user", content: prompt },
-        ],
-        temperature: 0.3,
-        max_tokens: 600,
-      }
-    );
+        }
+      );
+      raw = response?.response ?? response?.result ?? response;
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)];
+      continue;
+    }
 
-    const text = response?.response || response?.result || response || "";
-    const jsonMatch = String(text).match(/\{[\s\S]*\}/);
+    const parsed = parseVerdict(raw);
+    if (parsed.verdict) {
+      if (parsed.repairs.length > 0) {
+        telemetry.repaired++;
+        console.warn("[AI Analysis] Repaired", script.url, parsed.repairs);
+      } else if (attempt === 1) {
+        telemetry.validFirstTry++;
+      }
 
-    if (jsonMatch) {
-      const analysis = JSON.parse(jsonMatch[0]);
       return {
         scriptUrl: script.url,
         destinations: [scriptDomain],
-        ...analysis,
+        ...parsed.verdict,
+        verdictSource: "ai",
       };
     }
 
-    throw new Error("No valid JSON in AI response");
-  } catch (error) {
-    console.error("[AI Analysis Failed]", script.url, error);
-
-    // Final fallback for truly unknown scripts
-    const scriptDomain = new URL(script.url).hostname;
-    return {
-      scriptUrl: script.url,
-      scriptName: "Unrecognized Third-Party Script",
-      purpose: "Unknown - requires manual review",
-      dataCollected: ["Unknown - should be investigated"],
-      destinations: [scriptDomain],
-      riskLevel: "MEDIUM",
-      reasoning:
-        "This script is from an unfamiliar domain and should be reviewed by a developer",
-      recommendation: "MONITOR",
-      userFriendlyExplanation: `This script is from ${scriptDomain}, which is not in our database of known services. We recommend reviewing what this script does before allowing it.`,
-    };
+    errors = parsed.errors;
+    console.warn("[AI Analysis] Invalid response", script.url, errors);
+    messages.push(
+      {
+        role: "assistant",
+        content: typeof raw === "string" ? raw : JSON.stringify(raw),
+      },
+      {
+        role: "user",
+        content: `That response was invalid: ${errors.join(
+          "; "
+        )}. Reply with the corrected JSON object only.`,
+      }
+    );
   }
+
+  throw new Error(`No valid AI verdict: ${errors.join("; ")}`);
+}
+
+// Helper: Final fallback for truly unknown scripts
+function unrecognizedVerdict(script: ScriptInfo): ScriptAnalysis {
+  const scriptDomain = safeHostname(script.url);
+  return {
+    scriptUrl: script.url,
+    scriptName: "Unrecognized Third-Party Script",
+    purpose: "Unknown - requires manual review",
+    dataCollected: ["Unknown - should be investigated"],
+    destinations: [scriptDomain],
+    riskLevel: "MEDIUM",
+    reasoning:
+      "This script is from an unfamiliar domain and should be reviewed by a developer",
+    recommendation: "MONITOR",
+    userFriendlyExplanation: `This script is from ${scriptDomain}, which is not in our database of known services. We recommend reviewing what this script does before allowing it.`,
+    verdictSource: "fallback",
+  };
 }
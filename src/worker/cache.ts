@@ -0,0 +1,207 @@
+import type { CachedVerdict, ScriptAnalysis, ScriptVerdict } from "../types";
+import { parseVerdict } from "./verdict";
+
+// AI verdicts are re-checked after a week; overrides never expire
+const VERDICT_TTL_SECONDS = 7 * 24 * 60 * 60;
+// KV keys are limited to 512 bytes
+const MAX_KEY_LENGTH = 512;
+
+// Query parameters that only bust caches and don't change what is served
+const CACHE_BUSTING_PARAMS = new Set([
+  "_",
+  "cb",
+  "cachebust",
+  "cachebuster",
+  "rand",
+  "random",
+  "rnd",
+  "t",
+  "timestamp",
+  "ts",
+  "v",
+  "ver",
+  "version",
+]);
+
+export interface VerdictTarget {
+  url?: string;
+  hash?: string;
+}
+
+// Helper: Lowercase host, no fragment, no cache busters, sorted query
+export function normalizeScriptUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !CACHE_BUSTING_PARAMS.has(name.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Helper: Whether normalizing a URL drops any cache busters. A different
+// ?v= can serve a different body, so only a hash match vouches for it.
+function hasCacheBusters(url: string): boolean {
+  try {
+    return Array.from(new URL(url).searchParams.keys()).some((name) =>
+      CACHE_BUSTING_PARAMS.has(name.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Helper: KV keys for a script URL and/or content hash
+function verdictKeys(target: VerdictTarget): string[] {
+  const keys: string[] = [];
+  if (target.url) {
+    keys.push(`verdict:url:${normalizeScriptUrl(target.url)}`);
+  }
+  if (target.hash) {
+    keys.push(`verdict:hash:${target.hash}`);
+  }
+  return keys.filter((key) => key.length <= MAX_KEY_LENGTH);
+}
+
+// Helper: The classification fields of an analysis
+function toVerdict(analysis: ScriptVerdict): ScriptVerdict {
+  return {
+    scriptName: analysis.scriptName,
+    purpose: analysis.purpose,
+    dataCollected: analysis.dataCollected,
+    riskLevel: analysis.riskLevel,
+    reasoning: analysis.reasoning,
+    recommendation: analysis.recommendation,
+    userFriendlyExplanation: analysis.userFriendlyExplanation,
+  };
+}
+
+// Helper: Entries that fail the verdict schema count as misses
+function validEntry(entry: CachedVerdict | null): CachedVerdict | null {
+  const verdict = entry && parseVerdict(entry.verdict).verdict;
+  return entry && verdict ? { ...entry, verdict } : null;
+}
+
+// Helper: Whether an entry was made against this body, or against no body
+function sameBody(
+  entry: CachedVerdict,
+  contentHash: string | undefined
+): boolean {
+  return (
+    !entry.contentHash || !contentHash || entry.contentHash === contentHash
+  );
+}
+
+// Find a cached verdict for a script. Overrides win; a URL entry only counts
+// while the body still hashes the same, so a swapped script is re-checked.
+// Without a body to hash, a URL entry counts only if the URL had no cache
+// busters stripped.
+export async function lookupVerdict(
+  kv: KVNamespace,
+  url: string,
+  contentHash: string | undefined
+): Promise<CachedVerdict | null> {
+  try {
+    const [urlKey] = verdictKeys({ url });
+    const [hashKey] = verdictKeys({ hash: contentHash });
+    const [urlEntry, hashEntry] = (
+      await Promise.all([
+        urlKey ? kv.get<CachedVerdict>(urlKey, "json") : null,
+        hashKey ? kv.get<CachedVerdict>(hashKey, "json") : null,
+      ])
+    ).map(validEntry);
+
+    // A URL override lapses once the script's body changes
+    if (urlEntry?.override && sameBody(urlEntry, contentHash)) return urlEntry;
+    if (hashEntry?.override) return hashEntry;
+    if (hashEntry) return hashEntry;
+    if (
+      urlEntry &&
+      (contentHash ? sameBody(urlEntry, contentHash) : !hasCacheBusters(url))
+    ) {
+      return urlEntry;
+    }
+  } catch (error) {
+    console.error("[Cache] Lookup failed", url, error);
+  }
+
+  return null;
+}
+
+// Cache a fresh AI verdict under the script URL and its content hash
+export async function storeVerdict(
+  kv: KVNamespace,
+  analysis: ScriptAnalysis,
+  contentHash: string | undefined
+): Promise<void> {
+  const entry: CachedVerdict = {
+    verdict: toVerdict(analysis),
+    contentHash,
+    cachedAt: Date.now(),
+    override: false,
+  };
+
+  try {
+    await Promise.all(
+      verdictKeys({ url: analysis.scriptUrl, hash: contentHash }).map((key) =>
+        kv.put(key, JSON.stringify(entry), {
+          expirationTtl: VERDICT_TTL_SECONDS,
+        })
+      )
+    );
+  } catch (error) {
+    console.error("[Cache] Store failed", analysis.scriptUrl, error);
+  }
+}
+
+export async function getVerdict(
+  kv: KVNamespace,
+  target: VerdictTarget
+): Promise<Record<string, CachedVerdict | null>> {
+  const keys = verdictKeys(target);
+  const entries = await Promise.all(
+    keys.map((key) => kv.get<CachedVerdict>(key, "json"))
+  );
+  return Object.fromEntries(keys.map((key, i) => [key, entries[i]]));
+}
+
+// Pin a verdict for a URL and/or hash until it is purged. A URL given
+// without a hash is pinned to the body last cached for it.
+export async function overrideVerdict(
+  kv: KVNamespace,
+  target: VerdictTarget,
+  verdict: ScriptVerdict
+): Promise<CachedVerdict> {
+  let contentHash = target.hash;
+  const [urlKey] = verdictKeys({ url: target.url });
+  if (!contentHash && urlKey) {
+    contentHash = (await kv.get<CachedVerdict>(urlKey, "json"))?.contentHash;
+  }
+
+  const entry: CachedVerdict = {
+    verdict: toVerdict(verdict),
+    contentHash,
+    cachedAt: Date.now(),
+    override: true,
+  };
+  await Promise.all(
+    verdictKeys(target).map((key) => kv.put(key, JSON.stringify(entry)))
+  );
+  return entry;
+}
+
+export async function purgeVerdict(
+  kv: KVNamespace,
+  target: VerdictTarget
+): Promise<string[]> {
+  const keys = verdictKeys(target);
+  await Promise.all(keys.map((key) => kv.delete(key)));
+  return keys;
+}
@@ -5,6 +5,10 @@ import type {
   AnalysisResult,
   ScriptAnalysis,
 } from "../types";
+import { compareRisk } from "./summary";
+
+// Scripts described to the model, worst first; a scan can have 150
+const MAX_CONTEXT_SCRIPTS = 30;
 
 export async function handleChatMessage(
   message: string,
@@ -25,6 +29,7 @@ ANSWER GUIDELINES:
 - If asked for an extremely detailed or long list, say "Only showing top 5 due to space limits."
 - Your response MUST fit in a single short message.
 - If you cannot answer, say so directly.
+- For GDPR, CCPA or consent questions, cite the privacy compliance findings below and do not claim more than they show.
 
 Always be clear, direct, and user-friendly.
 ${context}`;
@@ -67,18 +72,84 @@ function buildAnalysisContext(
     return "No analysis data available yet. User is asking a general question about scripts.";
   }
 
-  const { url, totalScripts, thirdPartyScripts, analyses } = analysisData;
+  const {
+    url,
+    totalScripts,
+    thirdPartyScripts,
+    analyses,
+    skippedScripts,
+    compliance,
+    consentComparison,
+  } = analysisData;
 
   // Summarize analysis for AI context
-  const scriptSummaries = analyses
+  const scriptSummaries = [...analyses]
+    .sort(compareRisk)
+    .slice(0, MAX_CONTEXT_SCRIPTS)
     .map((script: ScriptAnalysis) => {
       return `- ${script.scriptName} (${script.scriptUrl})
   Purpose: ${script.purpose}
   Risk: ${script.riskLevel}
   Data Collected: ${script.dataCollected.join(", ")}
-  Recommendation: ${script.recommendation}`;
+  Recommendation: ${script.recommendation}
+  Consent purpose: ${script.consentPurpose || "unknown"}
+  Observed sending data to: ${
+    (script.behavior?.destinations || [])
+      .map(
+        (d) =>
+          `${d.host} (${d.requests} requests${
+            d.identifiers.length ? `, ${d.identifiers.join("/")}` : ""
+          })`
+      )
+      .join(", ") || "none"
+  }
+  Fingerprinting: ${
+    script.fingerprinting
+      ? `${script.fingerprinting.techniques.map((t) => t.technique).join(", ")} (score ${script.fingerprinting.score}/100)`
+      : "none observed"
+  }
+  Form field access (skimming check): ${
+    (script.fieldAccess || [])
+      .map((finding) => `${finding.description} (${finding.evidence})`)
+      .join("; ") || "none"
+  }`;
     })
     .join("\n\n");
+  const unlisted = analyses.length - MAX_CONTEXT_SCRIPTS;
+
+  const skippedSummary = (skippedScripts || [])
+    .slice(0, MAX_CONTEXT_SCRIPTS)
+    .map((skipped) => `- ${skipped.url}: ${skipped.message}`)
+    .join("\n");
+
+  const complianceFindings = (compliance?.findings || [])
+    .map(
+      (finding) =>
+        `- [${finding.severity}, ${finding.regulations.join("/")}] ${finding.title}: ${finding.detail}`
+    )
+    .join("\n");
+
+  // Measured on a first visit with no consent given; cite these for
+  // GDPR/CCPA questions instead of guessing
+  const complianceSummary = compliance
+    ? `Consent platform: ${
+        compliance.cmp.detected
+          ? compliance.cmp.name || "detected (TCF/GPP/USP API)"
+          : "none detected"
+      }
+Cookies set before consent: ${compliance.cookies.length}
+Findings:
+${complianceFindings || "- none"}`
+    : "Not audited for this scan.";
+
+  const consentSummary = consentComparison
+    ? consentComparison.consentGiven
+      ? `Consent given via ${consentComparison.acceptedWith}.
+Scripts only after consent: ${consentComparison.scripts.afterConsentOnly.join(", ") || "none"}
+Scripts regardless of consent: ${consentComparison.scripts.regardless.join(", ") || "none"}
+Cookies only after consent: ${consentComparison.cookies.afterConsentOnly.join(", ") || "none"}`
+      : "No consent banner could be accepted."
+    : "Not compared for this scan.";
 
   return `ANALYSIS CONTEXT:
 Website analyzed: ${url}
@@ -86,7 +157,18 @@ Total scripts: ${totalScripts}
 Third-party scripts: ${thirdPartyScripts}
 
 Detected Scripts:
-${scriptSummaries}
+${scriptSummaries}${
+    unlisted > 0 ? `\n\n(${unlisted} lower-risk scripts not listed)` : ""
+  }
+
+Not fully analyzed:
+${skippedSummary || "- none"}
+
+Privacy compliance audit (page loaded with no consent given):
+${complianceSummary}
+
+Before/after consent comparison:
+${consentSummary}
 
 Use this context to answer the user's questions accurately.`;
 }
@@ -0,0 +1,242 @@
+import type {
+  InlineScript,
+  ScriptElementAttributes,
+  ScriptInjection,
+} from "../types";
+import { attributeEvent } from "./monitor";
+import { analyzeSource } from "./static-analysis";
+
+// Inline content kept in the result; the hash always covers the full text
+const MAX_STORED_CONTENT = 5000;
+// Inline content kept across all of a scan's scripts. Pages with hundreds
+// of handlers would otherwise store megabytes of markup glue.
+const MAX_TOTAL_STORED_CONTENT = 250_000;
+
+// Injected with page.evaluateOnNewDocument alongside the runtime monitor.
+// Records every <script> element that enters the DOM, whether the parser put
+// it there or another script did, plus the stack of whoever inserted it.
+export const SCRIPT_COLLECTOR_SCRIPT = `(() => {
+  if (window.__sentinelScripts) return;
+
+  const records = [];
+  Object.defineProperty(window, "__sentinelScripts", {
+    value: records,
+    enumerable: false,
+  });
+
+  const seen = new WeakSet();
+  const JS_TYPES = ["", "text/javascript", "application/javascript", "module"];
+
+  const isScript = (node) =>
+    node && node.nodeType === 1 && node.tagName === "SCRIPT";
+
+  const record = (el, stack, dynamic) => {
+    if (seen.has(el)) return;
+    const type = (el.getAttribute("type") || "").trim().toLowerCase();
+    if (!JS_TYPES.includes(type)) return;
+    seen.add(el);
+
+    const current = document.currentScript;
+    const src = el.getAttribute("src") ? el.src : undefined;
+    records.push({
+      kind: src ? "external" : "inline",
+      src: src,
+      content: src ? undefined : el.text || "",
+      attributes: src
+        ? {
+            integrity: el.getAttribute("integrity") || undefined,
+            crossorigin: el.getAttribute("crossorigin") ?? undefined,
+            async: el.async,
+            defer: el.defer,
+          }
+        : undefined,
+      dynamic: dynamic,
+      stack: stack,
+      injector: current && current !== el && current.src ? current.src : undefined,
+      timestamp: Date.now(),
+    });
+  };
+
+  // Scripts inserted by other scripts: capture the inserting stack
+  const wrapInsert = (proto, name) => {
+    const original = proto[name];
+    if (!original) return;
+    proto[name] = function () {
+      try {
+        const stack = new Error().stack;
+        for (const arg of arguments) {
+          if (isScript(arg)) record(arg, stack, true);
+        }
+      } catch (e) {}
+      return original.apply(this, arguments);
+    };
+  };
+
+  wrapInsert(Node.prototype, "appendChild");
+  wrapInsert(Node.prototype, "insertBefore");
+  wrapInsert(Node.prototype, "replaceChild");
+  wrapInsert(Element.prototype, "append");
+  wrapInsert(Element.prototype, "prepend");
+  wrapInsert(Element.prototype, "after");
+  wrapInsert(Element.prototype, "before");
+  wrapInsert(Element.prototype, "insertAdjacentElement");
+
+  // Parser-inserted scripts and anything added via innerHTML/document.write
+  new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      for (const node of mutation.addedNodes) {
+        if (isScript(node)) {
+          record(node, undefined, document.readyState !== "loading");
+        } else if (node.nodeType === 1 && node.querySelectorAll) {
+          for (const el of node.querySelectorAll("script")) {
+            record(el, undefined, document.readyState !== "loading");
+          }
+        }
+      }
+    }
+  }).observe(document, { childList: true, subtree: true });
+})();`;
+
+// Evaluated after the page settles. Picks up javascript: URLs and inline
+// event handler attributes, which never appear as <script> elements.
+export const COLLECT_SCRIPTS_EXPRESSION = `(() => {
+  // Drained so repeated captures of one document don't repeat records
+  const records = (window.__sentinelScripts || []).splice(0);
+
+  for (const el of document.querySelectorAll("[href^='javascript:' i]")) {
+    records.push({
+      kind: "handler",
+      content: el.getAttribute("href"),
+      dynamic: false,
+      timestamp: Date.now(),
+    });
+  }
+
+  for (const el of document.querySelectorAll("*")) {
+    for (const attr of el.attributes) {
+      if (attr.name.startsWith("on") && attr.value) {
+        records.push({
+          kind: "handler",
+          content: attr.value,
+          dynamic: false,
+          timestamp: Date.now(),
+        });
+      }
+    }
+  }
+
+  return records;
+})()`;
+
+// Raw record produced by SCRIPT_COLLECTOR_SCRIPT
+export interface CollectedScript {
+  kind: "external" | "inline" | "handler";
+  src?: string;
+  content?: string;
+  attributes?: ScriptElementAttributes;
+  dynamic: boolean;
+  stack?: string;
+  injector?: string;
+  timestamp: number;
+}
+
+// Helper: CSP-style sha256 hash ("sha256-<base64>") of a script's text
+export async function hashScript(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(content)
+  );
+  let binary = "";
+  for (const byte of new Uint8Array(digest)) {
+    binary += String.fromCharCode(byte);
+  }
+  return `sha256-${btoa(binary)}`;
+}
+
+// Keep stored content within MAX_TOTAL_STORED_CONTENT, giving scripts with
+// static findings first claim. The rest keep their hash, length and analysis.
+export function limitStoredContent(inlineScripts: InlineScript[]): void {
+  const byFindings = [...inlineScripts].sort(
+    (a, b) =>
+      (b.staticAnalysis?.findings.length || 0) -
+      (a.staticAnalysis?.findings.length || 0)
+  );
+
+  let remaining = MAX_TOTAL_STORED_CONTENT;
+  for (const inline of byFindings) {
+    if (inline.content.length > remaining) {
+      inline.content = "";
+      inline.contentOmitted = true;
+      continue;
+    }
+    remaining -= inline.content.length;
+  }
+}
+
+export interface CollectedScripts {
+  inlineScripts: InlineScript[];
+  injections: ScriptInjection[];
+  // <script src> attributes keyed by absolute script URL
+  elements: Map<string, ScriptElementAttributes>;
+}
+
+// Turn raw collector records into inline script entries and injection edges
+export async function processCollectedScripts(
+  records: CollectedScript[],
+  pageUrl: string
+): Promise<CollectedScripts> {
+  const inlineScripts = new Map<string, InlineScript>();
+  const injections: ScriptInjection[] = [];
+  const elements = new Map<string, ScriptElementAttributes>();
+
+  for (const record of records) {
+    const injectedBy = record.injector || attributeEvent(record.stack);
+
+    if (record.kind === "external") {
+      if (record.src && record.attributes && !elements.has(record.src)) {
+        elements.set(record.src, record.attributes);
+      }
+      if (record.src && record.dynamic) {
+        injections.push({
+          script: record.src,
+          injectedBy,
+          timestamp: record.timestamp,
+        });
+      }
+      continue;
+    }
+
+    const content = record.content || "";
+    if (!content.trim()) continue;
+
+    const hash = await hashScript(content);
+    if (inlineScripts.has(hash)) continue;
+
+    inlineScripts.set(hash, {
+      hash,
+      kind: record.kind,
+      content: content.slice(0, MAX_STORED_CONTENT),
+      length: content.length,
+      dynamic: record.dynamic,
+      injectedBy,
+      staticAnalysis: analyzeSource(
+        { body: content, size: content.length, truncated: false },
+        pageUrl
+      ),
+    });
+
+    if (record.dynamic) {
+      injections.push({
+        script: hash,
+        injectedBy,
+        timestamp: record.timestamp,
+      });
+    }
+  }
+
+  return {
+    inlineScripts: Array.from(inlineScripts.values()),
+    injections,
+    elements,
+  };
+}
@@ -0,0 +1,326 @@
+import type {
+  CmpDetection,
+  ComplianceFinding,
+  ComplianceReport,
+  ConsentPurpose,
+  PreConsentCookie,
+  ScriptAnalysis,
+} from "../types";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+
+// How long to wait for a CMP's TCF/GPP/USP callback in the page
+const CMP_CALLBACK_TIMEOUT_MS = 1500;
+
+// Globals left behind by common consent management platforms
+const CMP_GLOBALS: [string, string][] = [
+  ["OneTrust", "OneTrust"],
+  ["Optanon", "OneTrust"],
+  ["Cookiebot", "Cookiebot"],
+  ["Didomi", "Didomi"],
+  ["UC_UI", "Usercentrics"],
+  ["truste", "TrustArc"],
+  ["Osano", "Osano"],
+  ["_iub", "iubenda"],
+  ["getCkyConsent", "CookieYes"],
+  ["complianz", "Complianz"],
+  ["_sp_", "Sourcepoint"],
+  ["klaro", "Klaro"],
+];
+
+// Evaluated after the page settles, before any interaction. Probes the IAB
+// TCF v2, GPP and USP APIs and returns only the fields we report on.
+export const DETECT_CMP_EXPRESSION = `(async () => {
+  const withTimeout = (run) =>
+    new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(null), ${CMP_CALLBACK_TIMEOUT_MS});
+      try {
+        run((data, success) => {
+          clearTimeout(timer);
+          resolve(success === false ? null : data);
+        });
+      } catch (e) {
+        clearTimeout(timer);
+        resolve(null);
+      }
+    });
+
+  const probe = {
+    tcf: typeof window.__tcfapi === "function",
+    gpp: typeof window.__gpp === "function",
+    usp: typeof window.__uspapi === "function",
+    globals: ${JSON.stringify(CMP_GLOBALS.map(([name]) => name))}.filter(
+      (name) => window[name] !== undefined
+    ),
+  };
+
+  if (probe.tcf) {
+    const data = await withTimeout((cb) => window.__tcfapi("getTCData", 2, cb));
+    if (data) {
+      const consents = (data.purpose && data.purpose.consents) || {};
+      probe.tcData = {
+        cmpId: data.cmpId,
+        gdprApplies: data.gdprApplies,
+        consents: Object.values(consents).filter(Boolean).length,
+      };
+    }
+  }
+
+  if (probe.gpp) {
+    const data = await withTimeout((cb) => window.__gpp("ping", cb));
+    if (data) {
+      probe.gppSections = (data.supportedAPIs || data.applicableSections || [])
+        .map(String)
+        .slice(0, 20);
+    }
+  }
+
+  if (probe.usp) {
+    const data = await withTimeout((cb) => window.__uspapi("getUSPData", 1, cb));
+    if (data) probe.uspString = data.uspString;
+  }
+
+  return probe;
+})()`;
+
+export interface CmpProbe {
+  tcf: boolean;
+  gpp: boolean;
+  usp: boolean;
+  globals: string[];
+  tcData?: { cmpId?: number; gdprApplies?: boolean; consents: number };
+  gppSections?: string[];
+  uspString?: string;
+}
+
+// Cookie as returned by the DevTools Network.getAllCookies command
+export interface BrowserCookie {
+  name: string;
+  domain: string;
+  expires: number;
+  session: boolean;
+}
+
+// Cookie names we can place without knowing who set them
+const COOKIE_PURPOSES: [RegExp, ConsentPurpose][] = [
+  [
+    /^(OptanonConsent|OptanonAlertBoxClosed|CookieConsent|euconsent(-v2)?|didomi_token|usprivacy|__cf_bm|cf_clearance|__stripe_(mid|sid)|PHPSESSID|JSESSIONID|ASP\.NET_SessionId|csrftoken|XSRF-TOKEN)$/i,
+    "necessary",
+  ],
+  [
+    /^(_ga(_.*)?|_gid|_gat(_.*)?|__utm[a-z]|_hj.*|_clck|_clsk|ajs_.*|mp_.*|amplitude_.*|_pk_.*|_vwo_.*)$/i,
+    "analytics",
+  ],
+  [
+    /^(_fbp|_fbc|fr|_gcl_.*|IDE|test_cookie|DSID|_uet(sid|vid)|MUID|_ttp|_tt_enable_cookie|_pin_unauth|_rdt_uuid|li_.*|bcookie|lidc|UserMatchHistory|_scid|__adroll.*|personalization_id|guest_id)$/i,
+    "advertising",
+  ],
+];
+
+const CATEGORY_PURPOSES: Record<string, ConsentPurpose> = {
+  payments: "necessary",
+  cdn: "necessary",
+  analytics: "analytics",
+  advertising: "advertising",
+  social: "social",
+  tag_manager: "functional",
+  support: "functional",
+};
+
+// Keywords in the verdict text, checked in order
+const PURPOSE_KEYWORDS: [RegExp, ConsentPurpose][] = [
+  [
+    /consent|cookie banner|payment|checkout|captcha|fraud|bot protection/,
+    "necessary",
+  ],
+  [
+    /advertis|\bads?\b|retarget|remarketing|conversion|pixel|marketing/,
+    "advertising",
+  ],
+  [
+    /analytic|tracking|metrics|heatmap|session replay|statistic|fingerprint/,
+    "analytics",
+  ],
+  [/social|share button|like button|embed(ded)? post/, "social"],
+  [/cdn|library|framework|polyfill|font/, "necessary"],
+  [/chat|support|video|map|widget|search|personaliz/, "functional"],
+];
+
+// Purposes that need opt-in consent under GDPR
+const CONSENT_REQUIRED = new Set<ConsentPurpose>([
+  "analytics",
+  "advertising",
+  "social",
+]);
+
+const SEVERITY_ORDER = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+// Consent purpose for a script: its signature category if we know the
+// vendor, otherwise keywords in the verdict
+export function classifyConsentPurpose(
+  analysis: ScriptAnalysis
+): ConsentPurpose {
+  if (analysis.signature) {
+    return CATEGORY_PURPOSES[analysis.signature.category] || "unknown";
+  }
+
+  const text = [
+    analysis.scriptName,
+    analysis.purpose,
+    ...analysis.dataCollected,
+  ]
+    .join(" ")
+    .toLowerCase();
+  const match = PURPOSE_KEYWORDS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : "unknown";
+}
+
+export function detectCmp(probe: CmpProbe | null): CmpDetection {
+  if (!probe) return { detected: false, tcf: false, gpp: false, usp: false };
+
+  const named = CMP_GLOBALS.find(([global]) => probe.globals.includes(global));
+  const name =
+    named?.[1] ||
+    (probe.tcData?.cmpId !== undefined
+      ? `TCF CMP #${probe.tcData.cmpId}`
+      : undefined);
+
+  return {
+    detected: Boolean(name) || probe.tcf || probe.gpp || probe.usp,
+    name,
+    tcf: probe.tcf,
+    gpp: probe.gpp,
+    usp: probe.usp,
+    tcfCmpId: probe.tcData?.cmpId,
+    gdprApplies: probe.tcData?.gdprApplies,
+    preGrantedPurposes: probe.tcData?.consents,
+    gppSections: probe.gppSections,
+    uspString: probe.uspString,
+  };
+}
+
+// Helper: Strip the leading dot of domain cookies
+function cookieHost(domain: string): string {
+  return domain.replace(/^\./, "").toLowerCase();
+}
+
+// Helper: Purpose and owning script for one cookie
+function classifyCookie(
+  cookie: BrowserCookie,
+  analyses: ScriptAnalysis[]
+): Pick<PreConsentCookie, "purpose" | "scriptUrl"> {
+  const host = cookieHost(cookie.domain);
+  const owner = analyses.find((a) => {
+    try {
+      const scriptHost = new URL(a.scriptUrl).hostname;
+      return scriptHost === host || scriptHost.endsWith(`.${host}`);
+    } catch {
+      return false;
+    }
+  });
+
+  const named = COOKIE_PURPOSES.find(([pattern]) => pattern.test(cookie.name));
+  return {
+    purpose: named?.[1] || owner?.consentPurpose || "unknown",
+    scriptUrl: owner?.scriptUrl,
+  };
+}
+
+// Audit the page as it loaded with no consent given: every tracker that
+// fired and every cookie that was set counts as pre-consent.
+export function auditCompliance(
+  analyses: ScriptAnalysis[],
+  cookies: BrowserCookie[],
+  cmp: CmpDetection,
+  pageUrl: string,
+  scope: FirstPartyScope
+): ComplianceReport {
+  const findings: ComplianceFinding[] = [];
+  const cmpNote = cmp.detected
+    ? ` even though ${cmp.name || "a consent platform"} is present`
+    : "";
+
+  const trackers = analyses.filter(
+    (a) => a.consentPurpose && CONSENT_REQUIRED.has(a.consentPurpose)
+  );
+  for (const tracker of trackers) {
+    findings.push({
+      id: `script-before-consent:${tracker.scriptUrl}`,
+      severity: tracker.consentPurpose === "analytics" ? "MEDIUM" : "HIGH",
+      regulations: ["GDPR"],
+      title: `${tracker.scriptName} fires before consent`,
+      detail: `Loaded on the first visit with no consent given${cmpNote}. Its ${tracker.consentPurpose} purpose needs opt-in consent under GDPR.`,
+      scriptUrl: tracker.scriptUrl,
+    });
+  }
+
+  const preConsentCookies: PreConsentCookie[] = cookies.map((cookie) => ({
+    name: cookie.name,
+    domain: cookie.domain,
+    thirdParty: !isFirstParty(`https://${cookieHost(cookie.domain)}/`, scope),
+    expires: cookie.session || cookie.expires < 0 ? undefined : cookie.expires,
+    ...classifyCookie(cookie, analyses),
+  }));
+
+  for (const cookie of preConsentCookies) {
+    if (!CONSENT_REQUIRED.has(cookie.purpose)) continue;
+    const purpose =
+      cookie.purpose[0].toUpperCase() + cookie.purpose.slice(1);
+    const kept = cookie.expires
+      ? `, kept until ${new Date(cookie.expires * 1000).toISOString().slice(0, 10)}`
+      : "";
+    findings.push({
+      id: `cookie-before-consent:${cookie.domain}:${cookie.name}`,
+      severity: cookie.purpose === "analytics" ? "MEDIUM" : "HIGH",
+      regulations: ["GDPR"],
+      title: `${purpose} cookie ${cookie.name} set before consent`,
+      detail: `${cookie.thirdParty ? "Third-party" : "First-party"} cookie on ${cookie.domain}${kept}${cmpNote}.`,
+      scriptUrl: cookie.scriptUrl,
+      cookie: cookie.name,
+    });
+  }
+
+  const needsConsent =
+    trackers.length > 0 ||
+    preConsentCookies.some((c) => CONSENT_REQUIRED.has(c.purpose));
+
+  if (needsConsent && !cmp.detected) {
+    findings.push({
+      id: "no-cmp",
+      severity: "HIGH",
+      regulations: ["GDPR"],
+      title: "No consent management platform detected",
+      detail: `${new URL(pageUrl).hostname} runs trackers but exposes no TCF, GPP or USP API and no known consent banner.`,
+    });
+  }
+
+  // CMPs legitimately grant everything where GDPR doesn't apply, and the
+  // scanning browser is often outside the EU
+  if (cmp.tcf && cmp.preGrantedPurposes && cmp.gdprApplies !== false) {
+    findings.push({
+      id: "tcf-pre-granted",
+      severity: "HIGH",
+      regulations: ["GDPR"],
+      title: "Consent reported before any interaction",
+      detail: `The TCF API reports consent for ${cmp.preGrantedPurposes} purpose(s) on a first visit where nothing was accepted.`,
+    });
+  }
+
+  const advertisers = analyses.filter(
+    (a) => a.consentPurpose === "advertising"
+  );
+  if (advertisers.length > 0 && !cmp.gpp && !cmp.usp) {
+    findings.push({
+      id: "no-ccpa-opt-out",
+      severity: "MEDIUM",
+      regulations: ["CCPA"],
+      title: "No opt-out signal for sale or sharing of personal information",
+      detail: `${advertisers.length} advertising script(s) run, but the page exposes no GPP or USP API to honor a "Do Not Sell or Share" choice.`,
+    });
+  }
+
+  findings.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+
+  return { cmp, cookies: preConsentCookies, findings };
+}
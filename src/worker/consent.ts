@@ -0,0 +1,228 @@
+import type { Browser } from "@cloudflare/puppeteer";
+import type { ConsentComparison, ConsentCookie, ConsentDiff } from "../types";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+
+const MAX_CONSENT_COOKIES = 20;
+// Time for trackers to load once the banner has been accepted
+const POST_CONSENT_WAIT_MS = 3000;
+
+// Accept buttons of common consent platforms, tried before text matching
+const ACCEPT_SELECTORS = [
+  "#onetrust-accept-btn-handler",
+  "#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll",
+  "#CybotCookiebotDialogBodyButtonAccept",
+  "#didomi-notice-agree-button",
+  "#truste-consent-button",
+  ".qc-cmp2-summary-buttons button[mode='primary']",
+  ".cky-btn-accept",
+  ".cmplz-accept",
+  ".osano-cm-accept-all",
+  ".iubenda-cs-accept-btn",
+  "[data-testid='uc-accept-all-button']",
+];
+
+// Evaluated in the page. Gives consent through a CMP's JavaScript API,
+// a known accept button, or any visible button labelled "accept all" in a
+// few languages. Returns what it used, or null if nothing was found.
+export const ACCEPT_CONSENT_EXPRESSION = `(() => {
+  const apis = [
+    ["UC_UI", (cmp) => cmp.acceptAllConsents()],
+    ["Didomi", (cmp) => cmp.setUserAgreeToAll()],
+    ["OneTrust", (cmp) => cmp.AllowAll()],
+    ["Cookiebot", (cmp) => cmp.submitCustomConsent(true, true, true)],
+  ];
+  for (const [name, accept] of apis) {
+    try {
+      if (window[name]) {
+        accept(window[name]);
+        return "api:" + name;
+      }
+    } catch (e) {}
+  }
+
+  const visible = (el) => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  for (const selector of ${JSON.stringify(ACCEPT_SELECTORS)}) {
+    const el = document.querySelector(selector);
+    if (el && visible(el)) {
+      el.click();
+      return "selector:" + selector;
+    }
+  }
+
+  const label = /^(accept( all)?( cookies)?|allow( all)?( cookies)?|agree|i agree|i accept|alle akzeptieren|akzeptieren|tout accepter|accepter|aceptar( todo)?|accetta( tutto)?|accepteren)$/i;
+  for (const el of document.querySelectorAll("button, a[role='button'], [role='button'], input[type='button'], input[type='submit']")) {
+    const text = (el.innerText || el.value || "").trim();
+    if (label.test(text) && visible(el)) {
+      el.click();
+      return "text:" + text;
+    }
+  }
+
+  return null;
+})()`;
+
+// What one page load left behind
+export interface ConsentSnapshot {
+  scripts: string[];
+  cookies: string[];
+  destinations: string[];
+}
+
+// Cookie as returned by the DevTools Network.getAllCookies command
+interface SnapshotCookie {
+  name: string;
+  domain: string;
+}
+
+export function cookieLabel(cookie: SnapshotCookie): string {
+  return `${cookie.name} (${cookie.domain})`;
+}
+
+// Validate consent cookies supplied with a scan request
+export function normalizeConsentCookies(input: unknown): ConsentCookie[] {
+  if (!Array.isArray(input)) return [];
+
+  const cookies: ConsentCookie[] = [];
+  for (const item of input.slice(0, MAX_CONSENT_COOKIES)) {
+    if (!item || typeof item !== "object") continue;
+    const { name, value, domain, path } = item as Record<string, unknown>;
+    if (typeof name !== "string" || !name.trim()) continue;
+    if (typeof value !== "string") continue;
+
+    cookies.push({
+      name: name.trim(),
+      value,
+      ...(typeof domain === "string" && domain.trim()
+        ? { domain: domain.trim() }
+        : {}),
+      ...(typeof path === "string" && path.startsWith("/") ? { path } : {}),
+    });
+  }
+  return cookies;
+}
+
+// Helper: Load with the same fallback as the first visit. Pages that keep
+// polling never reach networkidle2, so settle for domcontentloaded.
+async function loadWithFallback(
+  load: (options: {
+    waitUntil: "networkidle2" | "domcontentloaded";
+    timeout: number;
+  }) => Promise<unknown>
+): Promise<void> {
+  try {
+    await load({ waitUntil: "networkidle2", timeout: 45000 });
+  } catch {
+    await load({ waitUntil: "domcontentloaded", timeout: 30000 });
+    // Give time for scripts to load after DOM ready
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+  }
+}
+
+// Load the page again in a fresh browser context with consent given, by
+// injecting the supplied cookies or by accepting the banner. Records
+// third-party scripts and destinations across the whole second visit.
+export async function loadWithConsent(
+  browser: Browser,
+  url: string,
+  scope: FirstPartyScope,
+  consentCookies: ConsentCookie[] = []
+): Promise<{ snapshot: ConsentSnapshot; acceptedWith: string | null }> {
+  const context = await browser.createBrowserContext();
+  const scripts = new Set<string>();
+  const destinations = new Set<string>();
+
+  try {
+    const page = await context.newPage();
+    await page.setRequestInterception(true);
+
+    page.on("request", (req) => {
+      const requestUrl = req.url();
+      const resourceType = req.resourceType();
+      if (requestUrl.startsWith("http") && !isFirstParty(requestUrl, scope)) {
+        destinations.add(new URL(requestUrl).hostname);
+        if (resourceType === "script") scripts.add(requestUrl);
+      }
+
+      if (["image", "stylesheet", "font", "media"].includes(resourceType)) {
+        req.abort();
+        return;
+      }
+      req.continue();
+    });
+
+    let acceptedWith: string | null = null;
+    if (consentCookies.length > 0) {
+      await page.setCookie(
+        ...consentCookies.map((cookie) =>
+          cookie.domain
+            ? { ...cookie, path: cookie.path || "/" }
+            : { ...cookie, url }
+        )
+      );
+      acceptedWith = `cookie:${consentCookies.map((c) => c.name).join(",")}`;
+    }
+
+    await loadWithFallback((options) => page.goto(url, options));
+
+    if (!acceptedWith) {
+      acceptedWith = (await page.evaluate(ACCEPT_CONSENT_EXPRESSION)) as
+        | string
+        | null;
+
+      // Reload so the snapshot covers a full consented page view, not just
+      // what the banner's callback happened to inject
+      if (acceptedWith) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, POST_CONSENT_WAIT_MS)
+        );
+        await loadWithFallback((options) => page.reload(options));
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POST_CONSENT_WAIT_MS));
+
+    const client = await page.createCDPSession();
+    const { cookies } = await client.send("Network.getAllCookies");
+
+    return {
+      snapshot: {
+        scripts: Array.from(scripts),
+        cookies: cookies.map(cookieLabel),
+        destinations: Array.from(destinations),
+      },
+      acceptedWith,
+    };
+  } finally {
+    await context.close();
+  }
+}
+
+// Helper: Split two lists into only-before, only-after and both
+function diffLists(before: string[], after: string[]): ConsentDiff {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    afterConsentOnly: [...afterSet].filter((v) => !beforeSet.has(v)).sort(),
+    regardless: [...afterSet].filter((v) => beforeSet.has(v)).sort(),
+    beforeConsentOnly: [...beforeSet].filter((v) => !afterSet.has(v)).sort(),
+  };
+}
+
+export function compareConsentStates(
+  before: ConsentSnapshot,
+  after: ConsentSnapshot,
+  acceptedWith: string | null
+): ConsentComparison {
+  return {
+    consentGiven: acceptedWith !== null,
+    method: acceptedWith?.startsWith("cookie:") ? "cookie" : "banner",
+    acceptedWith: acceptedWith || undefined,
+    scripts: diffLists(before.scripts, after.scripts),
+    cookies: diffLists(before.cookies, after.cookies),
+    destinations: diffLists(before.destinations, after.destinations),
+  };
+}
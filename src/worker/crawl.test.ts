@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCrawlOptions, pageKey, selectLinks } from "./crawl";
+import { createFirstPartyScope } from "./first-party";
+
+const scope = createFirstPartyScope("https://shop.example.com/");
+const defaults = { maxDepth: 1, maxPages: 10 };
+
+describe("normalizeCrawlOptions", () => {
+  it("crawls with defaults when given true", () => {
+    expect(normalizeCrawlOptions(true)).toEqual({
+      maxDepth: 1,
+      maxPages: 10,
+      include: undefined,
+      exclude: undefined,
+    });
+    expect(normalizeCrawlOptions(false)).toBeUndefined();
+  });
+
+  it("clamps limits and keeps only path patterns", () => {
+    expect(
+      normalizeCrawlOptions({
+        maxDepth: 9,
+        maxPages: 0,
+        include: ["/checkout/*", "checkout", 1],
+      })
+    ).toEqual({
+      maxDepth: 3,
+      maxPages: 1,
+      include: ["/checkout/*"],
+      exclude: undefined,
+    });
+  });
+});
+
+describe("pageKey", () => {
+  it("ignores fragments and trailing slashes but keeps the query", () => {
+    expect(pageKey("https://shop.example.com/cart/#top")).toBe(
+      "https://shop.example.com/cart"
+    );
+    expect(pageKey("https://shop.example.com/?page=2")).toBe(
+      "https://shop.example.com/?page=2"
+    );
+  });
+});
+
+describe("selectLinks", () => {
+  it("keeps same-site pages and drops everything else", () => {
+    const links = selectLinks(
+      [
+        "https://shop.example.com/about",
+        "https://blog.example.com/post",
+        "https://other.example.net/",
+        "mailto:help@example.com",
+        "https://shop.example.com/catalog.pdf",
+        "not a url",
+      ],
+      scope,
+      defaults,
+      new Set()
+    );
+
+    expect(links).toEqual([
+      "https://shop.example.com/about",
+      "https://blog.example.com/post",
+    ]);
+  });
+
+  it("visits a page once and strips fragments", () => {
+    const seen = new Set([pageKey("https://shop.example.com/")]);
+    const links = selectLinks(
+      [
+        "https://shop.example.com/#main",
+        "https://shop.example.com/about#team",
+        "https://shop.example.com/about/",
+      ],
+      scope,
+      defaults,
+      seen
+    );
+
+    expect(links).toEqual(["https://shop.example.com/about"]);
+    expect(seen.has("https://shop.example.com/about")).toBe(true);
+  });
+
+  it("applies include and exclude patterns", () => {
+    const links = selectLinks(
+      [
+        "https://shop.example.com/products/shoes",
+        "https://shop.example.com/products/admin",
+        "https://shop.example.com/about",
+      ],
+      scope,
+      { ...defaults, include: ["/products/*"], exclude: ["*/admin"] },
+      new Set()
+    );
+
+    expect(links).toEqual(["https://shop.example.com/products/shoes"]);
+  });
+
+  it("puts checkout and login pages first", () => {
+    const links = selectLinks(
+      [
+        "https://shop.example.com/about",
+        "https://shop.example.com/blog",
+        "https://shop.example.com/checkout",
+        "https://shop.example.com/account/login",
+      ],
+      scope,
+      defaults,
+      new Set()
+    );
+
+    expect(links).toEqual([
+      "https://shop.example.com/checkout",
+      "https://shop.example.com/account/login",
+      "https://shop.example.com/about",
+      "https://shop.example.com/blog",
+    ]);
+  });
+});
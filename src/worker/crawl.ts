@@ -0,0 +1,119 @@
+import type { CrawlOptions } from "../types";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+import { pathMatches } from "./signatures";
+
+const DEFAULT_CRAWL_DEPTH = 1;
+const MAX_CRAWL_DEPTH = 3;
+const DEFAULT_CRAWL_PAGES = 10;
+// Every page is a full load in the same browser session
+const MAX_CRAWL_PAGES = 20;
+const MAX_PATTERNS = 20;
+
+// Evaluated after each page settles; anchors resolve to absolute URLs
+export const COLLECT_LINKS_EXPRESSION = `Array.from(
+  document.querySelectorAll("a[href]"),
+  (a) => a.href
+).slice(0, 500)`;
+
+// Pages where skimmers and credential stealers do their work; crawled
+// first so they fit within the page limit
+const PRIORITY_PATHS =
+  /checkout|cart|basket|payment|billing|login|log-in|signin|sign-in|signup|register|account|profile|password/i;
+
+// Links that are downloads, not pages
+const NON_PAGE_EXTENSIONS =
+  /\.(pdf|zip|gz|dmg|exe|msi|jpe?g|png|gif|svg|webp|mp3|mp4|mov|avi|docx?|xlsx?|pptx?|csv|xml|json|rss)$/i;
+
+// Helper: Clamp a number option into [min, max], falling back to a default
+function clamp(value: unknown, fallback: number, max: number): number {
+  const n = typeof value === "number" ? Math.floor(value) : fallback;
+  return Math.min(Math.max(Number.isFinite(n) ? n : fallback, 0), max);
+}
+
+// Helper: Path glob patterns, e.g. "/checkout/*"
+function normalizePatterns(input: unknown): string[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const patterns = input
+    .filter((p): p is string => typeof p === "string" && p.startsWith("/"))
+    .slice(0, MAX_PATTERNS);
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+// Validate crawl options from a scan request. `true` crawls with defaults.
+export function normalizeCrawlOptions(
+  input: unknown
+): CrawlOptions | undefined {
+  if (input === true) input = {};
+  if (!input || typeof input !== "object") return undefined;
+
+  const { maxDepth, maxPages, include, exclude } = input as Record<
+    string,
+    unknown
+  >;
+  return {
+    maxDepth: clamp(maxDepth, DEFAULT_CRAWL_DEPTH, MAX_CRAWL_DEPTH),
+    // The start page always counts
+    maxPages: Math.max(
+      clamp(maxPages, DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES),
+      1
+    ),
+    include: normalizePatterns(include),
+    exclude: normalizePatterns(exclude),
+  };
+}
+
+// Key used to avoid visiting the same page twice (fragment and trailing
+// slash ignored)
+export function pageKey(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, "") || "/";
+  return `${parsed.origin}${path}${parsed.search}`;
+}
+
+// Same-site links worth visiting next, in crawl order. Marks returned
+// links as seen.
+export function selectLinks(
+  links: string[],
+  scope: FirstPartyScope,
+  options: CrawlOptions,
+  seen: Set<string>
+): string[] {
+  const selected: string[] = [];
+
+  for (const link of links) {
+    let parsed: URL;
+    try {
+      parsed = new URL(link);
+    } catch {
+      continue;
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") continue;
+    if (!isFirstParty(link, scope)) continue;
+    if (NON_PAGE_EXTENSIONS.test(parsed.pathname)) continue;
+
+    const path = parsed.pathname;
+    if (
+      options.include &&
+      !options.include.some((pattern) => pathMatches(path, pattern))
+    ) {
+      continue;
+    }
+    if (options.exclude?.some((pattern) => pathMatches(path, pattern))) {
+      continue;
+    }
+
+    const key = pageKey(link);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    parsed.hash = "";
+    selected.push(parsed.toString());
+  }
+
+  // Stable sort: priority pages first, otherwise document order
+  return selected.sort(
+    (a, b) =>
+      Number(PRIORITY_PATHS.test(new URL(b).pathname)) -
+      Number(PRIORITY_PATHS.test(new URL(a).pathname))
+  );
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult, ScriptAnalysis } from "../types";
+import { generateCsp } from "./csp";
+
+function verdict(
+  scriptUrl: string,
+  recommendation: ScriptAnalysis["recommendation"],
+  destinations: string[] = []
+): ScriptAnalysis {
+  return {
+    scriptUrl,
+    scriptName: scriptUrl,
+    purpose: "",
+    dataCollected: [],
+    destinations,
+    riskLevel: recommendation === "BLOCK" ? "CRITICAL" : "LOW",
+    reasoning: "",
+    recommendation,
+    userFriendlyExplanation: "",
+  };
+}
+
+function result(
+  analyses: ScriptAnalysis[],
+  extra: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    success: true,
+    url: "https://shop.example.com/",
+    totalScripts: analyses.length,
+    thirdPartyScripts: analyses.length,
+    scripts: analyses.map((a) => ({ url: a.scriptUrl, timestamp: 0 })),
+    analyses,
+    ...extra,
+  };
+}
+
+describe("generateCsp", () => {
+  it("emits only script-related directives", () => {
+    const csp = generateCsp(result([]));
+
+    expect(Object.keys(csp.directives)).toEqual([
+      "script-src",
+      "connect-src",
+      "object-src",
+      "base-uri",
+    ]);
+    expect(csp.enforce).toBe(
+      "Content-Security-Policy: script-src 'self'; connect-src 'self'; object-src 'none'; base-uri 'self'"
+    );
+  });
+
+  it("allows origins of allowed scripts and leaves blocked ones out", () => {
+    const csp = generateCsp(
+      result([
+        verdict("https://js.stripe.com/v3/", "ALLOW", ["api.stripe.com"]),
+        verdict("https://evil.top/skim.js", "BLOCK", ["collect.evil.top"]),
+      ])
+    );
+
+    expect(csp.directives["script-src"]).toEqual([
+      "'self'",
+      "https://js.stripe.com",
+    ]);
+    expect(csp.directives["connect-src"]).toEqual([
+      "'self'",
+      "https://api.stripe.com",
+    ]);
+    expect(csp.excluded.map((e) => e.source)).toEqual([
+      "https://evil.top/skim.js",
+      "collect.evil.top",
+    ]);
+  });
+
+  it("falls back to exact paths on an origin that also serves a blocked script", () => {
+    const csp = generateCsp(
+      result([
+        verdict("https://cdn.jsdelivr.net/npm/jquery.min.js", "ALLOW"),
+        verdict("https://cdn.jsdelivr.net/npm/miner.js", "BLOCK"),
+      ])
+    );
+
+    expect(csp.directives["script-src"]).toEqual([
+      "'self'",
+      "https://cdn.jsdelivr.net/npm/jquery.min.js",
+    ]);
+  });
+
+  it("excludes scripts that were not analyzed", () => {
+    const csp = generateCsp(
+      result([], {
+        scripts: [{ url: "https://widget.example.net/w.js", timestamp: 0 }],
+      })
+    );
+
+    expect(csp.directives["script-src"]).toEqual(["'self'"]);
+    expect(csp.excluded[0].reason).toMatch(/Not analyzed/);
+  });
+
+  it("keeps the site's own script origins", () => {
+    const csp = generateCsp(
+      result([], { firstPartyOrigins: ["https://static.example.com"] })
+    );
+
+    expect(csp.directives["script-src"]).toContain(
+      "https://static.example.com"
+    );
+  });
+
+  it("allows inline scripts by hash unless flagged CRITICAL", () => {
+    const csp = generateCsp(
+      result([], {
+        inlineScripts: [
+          {
+            hash: "sha256-safe",
+            kind: "handler",
+            content: "",
+            length: 10,
+            dynamic: false,
+          },
+          {
+            hash: "sha256-bad",
+            kind: "inline",
+            content: "",
+            length: 10,
+            dynamic: false,
+            staticAnalysis: {
+              size: 10,
+              truncated: false,
+              endpoints: [],
+              findings: [
+                {
+                  type: "crypto_mining",
+                  severity: "CRITICAL",
+                  description: "Crypto mining",
+                  evidence: "CoinHive",
+                },
+              ],
+            },
+          },
+        ],
+      })
+    );
+
+    expect(csp.directives["script-src"]).toEqual([
+      "'self'",
+      "'sha256-safe'",
+      "'unsafe-hashes'",
+    ]);
+    expect(csp.excluded.map((e) => e.source)).toEqual(["sha256-bad"]);
+  });
+
+  it("adds the report URI only to the report-only header", () => {
+    const csp = generateCsp(result([]), {
+      reportUri: "https://shop.example.com/csp",
+    });
+
+    expect(csp.reportOnly).toMatch(
+      /report-uri https:\/\/shop\.example\.com\/csp$/
+    );
+    expect(csp.enforce).not.toMatch(/report-uri/);
+  });
+
+  it("recommends report-only first when scripts are monitored", () => {
+    const csp = generateCsp(
+      result([verdict("https://cdn.tracker.net/t.js", "MONITOR")])
+    );
+
+    expect(csp.notes.join(" ")).toMatch(
+      /1 allowed script\(s\) are marked MONITOR/
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import type {
+  AnalysisResult,
+  CspExclusion,
+  CspPolicy,
+  ScriptAnalysis,
+} from "../types";
+
+export interface CspOptions {
+  reportUri?: string;
+}
+
+const NONCE_GUIDANCE =
+  "If your server renders inline scripts per request, prefer a nonce over hashes: generate a fresh random value for every response, add 'nonce-<value>' to script-src and the same nonce attribute to each trusted <script>. Adding 'strict-dynamic' then lets those scripts load their own dependencies without listing every host.";
+
+// Helper: scheme://host source expression for a URL
+export function originOf(url: string): string | undefined {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper: Exact-path source expression, used when a host serves both
+// allowed and blocked scripts
+function pathSource(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function hostSource(host: string): string {
+  return `https://${host}`;
+}
+
+function serialize(directives: Record<string, string[]>): string {
+  return Object.entries(directives)
+    .map(([name, values]) => [name, ...values].join(" "))
+    .join("; ");
+}
+
+// Build script-src / connect-src from the ALLOW/MONITOR/BLOCK verdicts
+export function generateCsp(
+  analysis: AnalysisResult,
+  options: CspOptions = {}
+): CspPolicy {
+  const analyses = analysis.analyses || [];
+  const byUrl = new Map<string, ScriptAnalysis>(
+    analyses.map((a) => [a.scriptUrl, a])
+  );
+  const excluded: CspExclusion[] = [];
+  const notes: string[] = [];
+
+  // Origins that serve at least one blocked script can't be allowed
+  // wholesale, so those fall back to per-file sources.
+  const blockedOrigins = new Set<string>();
+  for (const a of analyses) {
+    if (a.recommendation === "BLOCK") {
+      const origin = originOf(a.scriptUrl);
+      if (origin) blockedOrigins.add(origin);
+      excluded.push({
+        source: a.scriptUrl,
+        reason: `Recommendation is BLOCK (${a.riskLevel} risk)`,
+      });
+    }
+  }
+
+  // The site's own scripts on other origins (subdomains, own CDNs) are
+  // never analyzed but must still load
+  const scriptSrc = new Set<string>([
+    "'self'",
+    ...(analysis.firstPartyOrigins || []),
+  ]);
+  const monitored: string[] = [];
+
+  for (const script of analysis.scripts) {
+    const verdict = byUrl.get(script.url);
+    if (!verdict) {
+      excluded.push({
+        source: script.url,
+        reason: "Not analyzed; review before allowing",
+      });
+      continue;
+    }
+    if (verdict.recommendation === "BLOCK") continue;
+
+    const origin = originOf(script.url);
+    if (!origin) continue;
+
+    const source = blockedOrigins.has(origin)
+      ? pathSource(script.url)
+      : origin;
+    if (source) scriptSrc.add(source);
+
+    if (verdict.recommendation === "MONITOR") {
+      monitored.push(script.url);
+    }
+  }
+
+  // Inline scripts are allowed by hash; anything flagged CRITICAL stays out
+  let needsUnsafeHashes = false;
+  for (const inline of analysis.inlineScripts || []) {
+    const critical = inline.staticAnalysis?.findings.some(
+      (f) => f.severity === "CRITICAL"
+    );
+    if (critical) {
+      excluded.push({
+        source: inline.hash,
+        reason: "Inline script has CRITICAL static analysis findings",
+      });
+      continue;
+    }
+    scriptSrc.add(`'${inline.hash}'`);
+    if (inline.kind === "handler") needsUnsafeHashes = true;
+  }
+
+  if (needsUnsafeHashes) {
+    scriptSrc.add("'unsafe-hashes'");
+    notes.push(
+      "Inline event handlers or javascript: URLs were found. They are allowed via 'unsafe-hashes'; moving them into script files is safer."
+    );
+  }
+
+  // connect-src follows where allowed scripts actually send data
+  const connectSrc = new Set<string>(["'self'"]);
+  const blockedDestinations = new Set<string>();
+  for (const a of analyses) {
+    // destinations are the hosts each script was observed contacting
+    for (const host of a.destinations) {
+      if (a.recommendation === "BLOCK") {
+        blockedDestinations.add(host);
+      } else {
+        connectSrc.add(hostSource(host));
+      }
+    }
+  }
+
+  for (const host of blockedDestinations) {
+    if (!connectSrc.has(hostSource(host))) {
+      excluded.push({
+        source: host,
+        reason: "Only contacted by blocked scripts",
+      });
+    }
+  }
+
+  if (monitored.length > 0) {
+    notes.push(
+      `${monitored.length} allowed script(s) are marked MONITOR. Deploy the report-only policy first and watch for violations before enforcing.`
+    );
+  }
+
+  // No default-src: the scan only saw scripts and their requests, and a
+  // 'self' default would also block the site's images, fonts and frames
+  const directives: Record<string, string[]> = {
+    "script-src": Array.from(scriptSrc),
+    "connect-src": Array.from(connectSrc),
+    "object-src": ["'none'"],
+    "base-uri": ["'self'"],
+  };
+
+  const reportDirectives = options.reportUri
+    ? { ...directives, "report-uri": [options.reportUri] }
+    : directives;
+
+  return {
+    directives,
+    enforce: `Content-Security-Policy: ${serialize(directives)}`,
+    reportOnly: `Content-Security-Policy-Report-Only: ${serialize(
+      reportDirectives
+    )}`,
+    excluded,
+    notes,
+    nonceGuidance: NONCE_GUIDANCE,
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult, ScriptAnalysis } from "../types";
+import { diffAnalyses, hasChanges } from "./diff";
+
+function verdict(
+  scriptUrl: string,
+  overrides: Partial<ScriptAnalysis> = {}
+): ScriptAnalysis {
+  return {
+    scriptUrl,
+    scriptName: "Widget",
+    purpose: "",
+    dataCollected: [],
+    destinations: [],
+    riskLevel: "LOW",
+    reasoning: "",
+    recommendation: "ALLOW",
+    userFriendlyExplanation: "",
+    ...overrides,
+  };
+}
+
+function scan(
+  analyses: ScriptAnalysis[],
+  extra: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    success: true,
+    url: "https://shop.example.com/",
+    totalScripts: analyses.length,
+    thirdPartyScripts: analyses.length,
+    scripts: analyses.map((a) => ({ url: a.scriptUrl, timestamp: 0 })),
+    analyses,
+    ...extra,
+  };
+}
+
+describe("diffAnalyses", () => {
+  it("matches scripts whose cache buster changed", () => {
+    const diff = diffAnalyses(
+      scan([verdict("https://cdn.vendor.com/w.js?v=1")]),
+      scan([verdict("https://cdn.vendor.com/w.js?v=2")])
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(hasChanges(diff)).toBe(false);
+  });
+
+  it("lists added and removed scripts", () => {
+    const diff = diffAnalyses(
+      scan([verdict("https://old.vendor.com/a.js")]),
+      scan([verdict("https://new.vendor.com/b.js")])
+    );
+
+    expect(diff.added).toEqual(["https://new.vendor.com/b.js"]);
+    expect(diff.removed).toEqual(["https://old.vendor.com/a.js"]);
+  });
+
+  it("reports risk and content changes separately", () => {
+    const url = "https://cdn.vendor.com/w.js";
+    const diff = diffAnalyses(
+      scan([verdict(url, { contentHash: "aaa" })]),
+      scan([
+        verdict(url, {
+          contentHash: "bbb",
+          riskLevel: "CRITICAL",
+          recommendation: "BLOCK",
+        }),
+      ])
+    );
+
+    expect(diff.riskChanged).toEqual([
+      {
+        scriptUrl: url,
+        scriptName: "Widget",
+        from: "LOW / ALLOW",
+        to: "CRITICAL / BLOCK",
+      },
+    ]);
+    expect(diff.contentChanged.map((c) => [c.from, c.to])).toEqual([
+      ["aaa", "bbb"],
+    ]);
+  });
+
+  it("ignores a content hash missing from either scan", () => {
+    const url = "https://cdn.vendor.com/w.js";
+    const diff = diffAnalyses(
+      scan([verdict(url)]),
+      scan([verdict(url, { contentHash: "bbb" })])
+    );
+
+    expect(diff.contentChanged).toEqual([]);
+  });
+
+  it("compares inline scripts by hash", () => {
+    const inline = (hash: string) => ({
+      hash,
+      kind: "inline" as const,
+      content: "",
+      length: 1,
+      dynamic: false,
+    });
+    const diff = diffAnalyses(
+      scan([], { inlineScripts: [inline("sha256-a"), inline("sha256-b")] }),
+      scan([], { inlineScripts: [inline("sha256-b"), inline("sha256-c")] })
+    );
+
+    expect(diff.inlineAdded).toEqual(["sha256-c"]);
+    expect(diff.inlineRemoved).toEqual(["sha256-a"]);
+    expect(hasChanges(diff)).toBe(true);
+  });
+});
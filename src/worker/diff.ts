@@ -0,0 +1,102 @@
+import type {
+  AnalysisDiff,
+  AnalysisResult,
+  ScriptAnalysis,
+  ScriptChange,
+} from "../types";
+import { normalizeScriptUrl } from "./cache";
+
+// Helper: Analyses keyed by normalized script URL
+function byUrl(analyses: ScriptAnalysis[] | undefined) {
+  return new Map(
+    (analyses || []).map((a) => [normalizeScriptUrl(a.scriptUrl), a])
+  );
+}
+
+// Helper: Script URLs keyed by their normalized form
+function urlsOf(result: AnalysisResult): Map<string, string> {
+  return new Map(
+    result.scripts.map((s) => [normalizeScriptUrl(s.url), s.url])
+  );
+}
+
+// Compare two stored scans of the same site. Scripts are matched on
+// normalized URLs, so a bumped ?v= is not an add and a remove. Content hash
+// changes at an unchanged URL are the Magecart signal, so they are reported
+// separately from risk changes.
+export function diffAnalyses(
+  from: AnalysisResult,
+  to: AnalysisResult
+): AnalysisDiff {
+  const fromUrls = urlsOf(from);
+  const toUrls = urlsOf(to);
+  const fromAnalyses = byUrl(from.analyses);
+  const toAnalyses = byUrl(to.analyses);
+
+  const added = Array.from(toUrls)
+    .filter(([key]) => !fromUrls.has(key))
+    .map(([, url]) => url);
+  const removed = Array.from(fromUrls)
+    .filter(([key]) => !toUrls.has(key))
+    .map(([, url]) => url);
+
+  const riskChanged: ScriptChange[] = [];
+  const contentChanged: ScriptChange[] = [];
+
+  for (const [key, after] of toAnalyses) {
+    const before = fromAnalyses.get(key);
+    if (!before) continue;
+    const url = after.scriptUrl;
+
+    if (
+      before.riskLevel !== after.riskLevel ||
+      before.recommendation !== after.recommendation
+    ) {
+      riskChanged.push({
+        scriptUrl: url,
+        scriptName: after.scriptName,
+        from: `${before.riskLevel} / ${before.recommendation}`,
+        to: `${after.riskLevel} / ${after.recommendation}`,
+      });
+    }
+
+    if (
+      before.contentHash &&
+      after.contentHash &&
+      before.contentHash !== after.contentHash
+    ) {
+      contentChanged.push({
+        scriptUrl: url,
+        scriptName: after.scriptName,
+        from: before.contentHash,
+        to: after.contentHash,
+      });
+    }
+  }
+
+  const fromInline = new Set((from.inlineScripts || []).map((s) => s.hash));
+  const toInline = new Set((to.inlineScripts || []).map((s) => s.hash));
+
+  return {
+    url: to.url,
+    fromScannedAt: from.scannedAt,
+    toScannedAt: to.scannedAt,
+    added,
+    removed,
+    riskChanged,
+    contentChanged,
+    inlineAdded: Array.from(toInline).filter((h) => !fromInline.has(h)),
+    inlineRemoved: Array.from(fromInline).filter((h) => !toInline.has(h)),
+  };
+}
+
+export function hasChanges(diff: AnalysisDiff): boolean {
+  return (
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    diff.riskChanged.length > 0 ||
+    diff.contentChanged.length > 0 ||
+    diff.inlineAdded.length > 0 ||
+    diff.inlineRemoved.length > 0
+  );
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import type {
+  FingerprintTechnique,
+  RuntimeEvent,
+  ScriptBehavior,
+} from "../types";
+import { attachFingerprinting, buildFingerprintReport } from "./fingerprint";
+import { createFirstPartyScope } from "./first-party";
+import { scoreScript } from "./scoring";
+
+function call(
+  technique: FingerprintTechnique,
+  api: string,
+  value?: string,
+  scriptUrl = "https://fp.example.net/fp.js"
+): RuntimeEvent {
+  return {
+    type: "fingerprint",
+    technique,
+    api,
+    value,
+    scriptUrl,
+    timestamp: 0,
+  };
+}
+
+const CANVAS = [
+  call("canvas", "CanvasRenderingContext2D.fillText"),
+  call("canvas", "HTMLCanvasElement.toDataURL"),
+];
+const AUDIO = [
+  call("audio", "OfflineAudioContext"),
+  call("audio", "BaseAudioContext.createOscillator"),
+];
+
+describe("buildFingerprintReport", () => {
+  it("ignores a canvas readback without drawn text", () => {
+    expect(
+      buildFingerprintReport([call("canvas", "HTMLCanvasElement.toDataURL")])
+    ).toBeUndefined();
+  });
+
+  it("flags a canvas readback of drawn text", () => {
+    const report = buildFingerprintReport(CANVAS);
+
+    expect(report?.techniques.map((t) => t.technique)).toEqual(["canvas"]);
+    expect(report?.score).toBe(25);
+  });
+
+  it("needs an oscillator rendered offline for audio", () => {
+    expect(
+      buildFingerprintReport([call("audio", "AudioContext")])
+    ).toBeUndefined();
+    expect(buildFingerprintReport(AUDIO)?.techniques[0].technique).toBe(
+      "audio"
+    );
+  });
+
+  it("counts font probing only past the threshold", () => {
+    const probe = (count: number) =>
+      Array.from({ length: count }, (_, i) =>
+        call("fonts", "document.fonts.check", `12px font${i}`)
+      );
+
+    expect(buildFingerprintReport(probe(3))).toBeUndefined();
+    expect(buildFingerprintReport(probe(10))?.techniques[0].evidence).toMatch(
+      /10 fonts probed/
+    );
+  });
+
+  it("flags a single unmasked WebGL renderer read", () => {
+    const report = buildFingerprintReport([
+      call("webgl", "WebGLRenderingContext.getParameter", "37446"),
+    ]);
+
+    expect(report?.techniques[0].evidence).toMatch(/unmasked GPU/);
+  });
+
+  it("ignores weak signals on their own", () => {
+    expect(
+      buildFingerprintReport([
+        call("hardware", "navigator.hardwareConcurrency"),
+        call("plugins", "navigator.plugins"),
+      ])
+    ).toBeUndefined();
+  });
+
+  it("counts weak signals alongside a strong technique or each other", () => {
+    const withCanvas = buildFingerprintReport([
+      ...CANVAS,
+      call("hardware", "navigator.hardwareConcurrency"),
+    ]);
+    expect(withCanvas?.techniques.map((t) => t.technique)).toEqual([
+      "canvas",
+      "hardware",
+    ]);
+
+    const weakOnly = buildFingerprintReport([
+      call("hardware", "navigator.hardwareConcurrency"),
+      call("plugins", "navigator.plugins"),
+      call("battery", "navigator.getBattery"),
+    ]);
+    expect(weakOnly?.techniques).toHaveLength(3);
+  });
+
+  it("caps the score at 100", () => {
+    const report = buildFingerprintReport([
+      ...CANVAS,
+      ...AUDIO,
+      call("webgl", "WebGLRenderingContext.getParameter", "37445"),
+      call("fonts", "queryLocalFonts"),
+      call("media_devices", "navigator.mediaDevices.enumerateDevices"),
+    ]);
+
+    expect(report?.score).toBe(100);
+  });
+});
+
+describe("attachFingerprinting", () => {
+  it("reports per script and creates missing behaviors", () => {
+    const behaviors = new Map<string, ScriptBehavior>();
+    attachFingerprinting(behaviors, [
+      ...CANVAS,
+      call(
+        "canvas",
+        "HTMLCanvasElement.toDataURL",
+        undefined,
+        "https://charts.example.org/c.js"
+      ),
+    ]);
+
+    expect(Array.from(behaviors.keys())).toEqual([
+      "https://fp.example.net/fp.js",
+    ]);
+    expect(behaviors.get("https://fp.example.net/fp.js")?.cookieReads).toBe(0);
+  });
+});
+
+describe("fingerprint labels", () => {
+  it("don't count as sensitive data in the risk score", () => {
+    const report = buildFingerprintReport([
+      ...CANVAS,
+      ...AUDIO,
+      call("webgl", "WebGLRenderingContext.getParameter", "37445"),
+      call("fonts", "queryLocalFonts"),
+      call("plugins", "navigator.plugins"),
+      call("battery", "navigator.getBattery"),
+      call("hardware", "navigator.deviceMemory"),
+      call("media_devices", "navigator.mediaDevices.enumerateDevices"),
+    ]);
+    expect(report?.techniques).toHaveLength(8);
+
+    const scored = scoreScript(
+      {
+        scriptUrl: "https://fp.example.net/fp.js",
+        scriptName: "Fingerprinter",
+        purpose: "",
+        dataCollected: report?.techniques.map((t) => t.evidence) || [],
+        destinations: [],
+        riskLevel: "LOW",
+        reasoning: "",
+        recommendation: "ALLOW",
+        userFriendlyExplanation: "",
+      },
+      createFirstPartyScope("https://shop.example.com/")
+    );
+
+    expect(
+      scored.riskScore?.factors.find((f) => f.id === "sensitive_data")
+    ).toBeUndefined();
+  });
+});
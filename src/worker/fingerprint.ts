@@ -0,0 +1,181 @@
+import type {
+  FingerprintReport,
+  FingerprintTechnique,
+  FingerprintTechniqueUse,
+  RuntimeEvent,
+  ScriptBehavior,
+} from "../types";
+import { emptyBehavior } from "./monitor";
+
+// How identifying each technique is; the score is their capped sum
+const TECHNIQUE_WEIGHTS: Record<FingerprintTechnique, number> = {
+  canvas: 25,
+  audio: 25,
+  webgl: 20,
+  fonts: 20,
+  media_devices: 15,
+  plugins: 10,
+  battery: 10,
+  hardware: 5,
+};
+
+// Every label says "fingerprint" so dataCollected reads as tracking. None
+// may contain a sensitive-data keyword from scoring.ts ("card", "phone"):
+// that would score fingerprinting as collecting payment or contact data.
+const TECHNIQUE_LABELS: Record<FingerprintTechnique, string> = {
+  canvas: "Canvas fingerprint",
+  audio: "Audio fingerprint",
+  webgl: "WebGL fingerprint (GPU vendor/renderer)",
+  fonts: "Font fingerprint (installed fonts)",
+  media_devices: "Media device fingerprint (cameras, audio inputs)",
+  plugins: "Plugin fingerprint",
+  battery: "Battery status fingerprint",
+  hardware: "Hardware fingerprint (CPU cores, memory)",
+};
+
+// Text layout and 3D libraries measure a few fonts and read a few WebGL
+// limits; probing many is enumeration
+const MIN_FONT_PROBES = 10;
+const MIN_WEBGL_PARAMETERS = 10;
+// WEBGL_debug_renderer_info constants: reading these is always deliberate
+const UNMASKED_WEBGL_PARAMETERS = new Set(["37445", "37446"]);
+// Charts and image editors read canvases back too; fingerprinting reads
+// back text it drew, since glyph rendering is what differs per machine
+const CANVAS_READBACK_APIS = new Set([
+  "HTMLCanvasElement.toDataURL",
+  "HTMLCanvasElement.toBlob",
+  "CanvasRenderingContext2D.getImageData",
+]);
+const CANVAS_TEXT_APIS = new Set([
+  "CanvasRenderingContext2D.fillText",
+  "CanvasRenderingContext2D.strokeText",
+]);
+// Players and games use AudioContext; rendering an oscillator offline is
+// the fingerprinting recipe
+const OFFLINE_AUDIO_API = "OfflineAudioContext";
+const OSCILLATOR_API = "BaseAudioContext.createOscillator";
+// Read by plenty of feature detection; these only count alongside a
+// stronger technique or enough of each other
+const WEAK_TECHNIQUES = new Set<FingerprintTechnique>([
+  "plugins",
+  "battery",
+  "hardware",
+  "media_devices",
+]);
+const MIN_WEAK_TECHNIQUES = 3;
+
+// Helper: Whether a script's calls for one technique amount to using it
+function isFingerprinting(
+  technique: FingerprintTechnique,
+  events: RuntimeEvent[]
+): boolean {
+  const details = new Set(events.map((event) => event.value));
+  const apis = new Set(events.map((event) => event.api || ""));
+
+  switch (technique) {
+    case "canvas":
+      return (
+        Array.from(CANVAS_READBACK_APIS).some((api) => apis.has(api)) &&
+        Array.from(CANVAS_TEXT_APIS).some((api) => apis.has(api))
+      );
+    case "audio":
+      return apis.has(OFFLINE_AUDIO_API) && apis.has(OSCILLATOR_API);
+    case "fonts":
+      return (
+        events.some((event) => event.api === "queryLocalFonts") ||
+        details.size >= MIN_FONT_PROBES
+      );
+    case "webgl":
+      return (
+        events.some(
+          (event) => event.value && UNMASKED_WEBGL_PARAMETERS.has(event.value)
+        ) || details.size >= MIN_WEBGL_PARAMETERS
+      );
+    default:
+      return events.length > 0;
+  }
+}
+
+// Helper: How many fonts or WebGL parameters were probed, for the evidence
+function probeDetail(
+  technique: FingerprintTechnique,
+  events: RuntimeEvent[]
+): string {
+  const probed = new Set(events.map((event) => event.value)).size;
+  if (technique === "fonts" && probed > 0) return ` (${probed} fonts probed)`;
+  if (technique === "webgl") {
+    return events.some(
+      (event) => event.value && UNMASKED_WEBGL_PARAMETERS.has(event.value)
+    )
+      ? " (unmasked GPU vendor/renderer read)"
+      : ` (${probed} parameters read)`;
+  }
+  return "";
+}
+
+// Techniques one script used, from its fingerprint events, with a score
+export function buildFingerprintReport(
+  events: RuntimeEvent[]
+): FingerprintReport | undefined {
+  const byTechnique = new Map<FingerprintTechnique, RuntimeEvent[]>();
+  for (const event of events) {
+    if (event.type !== "fingerprint" || !event.technique) continue;
+    const list = byTechnique.get(event.technique) || [];
+    list.push(event);
+    byTechnique.set(event.technique, list);
+  }
+
+  const techniques: FingerprintTechniqueUse[] = [];
+  for (const [technique, used] of byTechnique) {
+    if (!isFingerprinting(technique, used)) continue;
+
+    const apis = Array.from(new Set(used.map((event) => event.api || "")))
+      .filter(Boolean)
+      .sort();
+    techniques.push({
+      technique,
+      apis,
+      calls: used.length,
+      evidence: `${TECHNIQUE_LABELS[technique]}: ${apis.join(
+        ", "
+      )}${probeDetail(technique, used)}`,
+    });
+  }
+  if (techniques.length === 0) return undefined;
+  const weakOnly = techniques.every((t) => WEAK_TECHNIQUES.has(t.technique));
+  if (weakOnly && techniques.length < MIN_WEAK_TECHNIQUES) return undefined;
+
+  techniques.sort(
+    (a, b) => TECHNIQUE_WEIGHTS[b.technique] - TECHNIQUE_WEIGHTS[a.technique]
+  );
+  return {
+    techniques,
+    score: Math.min(
+      100,
+      techniques.reduce((sum, t) => sum + TECHNIQUE_WEIGHTS[t.technique], 0)
+    ),
+  };
+}
+
+// Attach a fingerprinting report to the behavior of every script that used
+// a technique, creating behaviors for scripts the monitor saw nothing else of
+export function attachFingerprinting(
+  behaviors: Map<string, ScriptBehavior>,
+  events: RuntimeEvent[]
+): void {
+  const byScript = new Map<string, RuntimeEvent[]>();
+  for (const event of events) {
+    if (event.type !== "fingerprint" || !event.scriptUrl) continue;
+    const list = byScript.get(event.scriptUrl) || [];
+    list.push(event);
+    byScript.set(event.scriptUrl, list);
+  }
+
+  for (const [scriptUrl, scriptEvents] of byScript) {
+    const report = buildFingerprintReport(scriptEvents);
+    if (!report) continue;
+    const behavior = behaviors.get(scriptUrl) || emptyBehavior();
+    behavior.fingerprinting = report;
+    behaviors.set(scriptUrl, behavior);
+  }
+}
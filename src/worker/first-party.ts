@@ -0,0 +1,82 @@
+import { getDomain } from "tldts";
+
+// Own-domain entries accepted per scan
+const MAX_OWN_DOMAINS = 50;
+
+// Who counts as "us" for one scan: the page's site plus any domains the
+// user says they operate (CDNs, asset hosts)
+export interface FirstPartyScope {
+  pageHost: string;
+  site: string;
+  ownDomains: string[];
+}
+
+// Helper: Registrable domain (eTLD+1) of a host, public-suffix aware, so
+// static.example.co.uk -> example.co.uk and a.github.io stays a.github.io.
+// IPs and single-label hosts are their own site.
+export function registrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return getDomain(host, { allowPrivateDomains: true }) || host;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+// Clean a user-supplied list of domains: accepts hosts, URLs and "*." forms
+export function normalizeOwnDomains(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+
+  const domains = input
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => {
+      const trimmed = value.trim().toLowerCase().replace(/^\*\./, "");
+      // Pasted URLs keep only their host
+      return /^[a-z]+:\/\//.test(trimmed)
+        ? hostOf(trimmed)
+        : trimmed.split("/")[0];
+    })
+    .filter((domain) => /^[a-z0-9.-]+$/.test(domain) && domain.includes("."));
+
+  return Array.from(new Set(domains)).slice(0, MAX_OWN_DOMAINS);
+}
+
+export function createFirstPartyScope(
+  pageUrl: string,
+  ownDomains: string[] = []
+): FirstPartyScope {
+  const pageHost = hostOf(pageUrl);
+  return {
+    pageHost,
+    site: registrableDomain(pageHost),
+    ownDomains: normalizeOwnDomains(ownDomains),
+  };
+}
+
+// Same registrable domain as the page, or on one of our own domains (the
+// domain itself or any subdomain)
+export function isFirstParty(url: string, scope: FirstPartyScope): boolean {
+  const host = hostOf(url);
+  if (!host) return false;
+
+  return (
+    registrableDomain(host) === scope.site ||
+    scope.ownDomains.some(
+      (domain) => host === domain || host.endsWith(`.${domain}`)
+    )
+  );
+}
+
+// Both URLs belong to the same registrable domain
+export function isSameSite(a: string, b: string): boolean {
+  const hostA = hostOf(a);
+  const hostB = hostOf(b);
+  return (
+    Boolean(hostA && hostB) &&
+    registrableDomain(hostA) === registrableDomain(hostB)
+  );
+}
@@ -0,0 +1,138 @@
+import type {
+  DependencyGraph,
+  DependencyNode,
+  InlineScript,
+  ScriptInfo,
+  ScriptInitiator,
+  ScriptInjection,
+} from "../types";
+
+// Structural subset of the CDP Network.Initiator that Puppeteer exposes
+interface StackTrace {
+  callFrames: { url: string }[];
+  parent?: StackTrace;
+}
+
+export interface RequestInitiator {
+  type: string;
+  url?: string;
+  stack?: StackTrace;
+}
+
+// Helper: First script URL found in a CDP stack, walking async parents
+function urlFromStack(stack: StackTrace | undefined): string | undefined {
+  let current = stack;
+  while (current) {
+    const frame = current.callFrames.find((f) => /^https?:/.test(f.url));
+    if (frame) return frame.url;
+    current = current.parent;
+  }
+  return undefined;
+}
+
+// Reduce a Puppeteer/CDP initiator to the script (or document) that caused it
+export function resolveInitiator(
+  initiator: RequestInitiator | undefined
+): ScriptInitiator | undefined {
+  if (!initiator) return undefined;
+
+  const url = urlFromStack(initiator.stack) || initiator.url;
+  return {
+    type:
+      initiator.type === "parser"
+        ? "parser"
+        : initiator.stack
+        ? "script"
+        : "other",
+    url: url || undefined,
+  };
+}
+
+// Helper: A document URL without its fragment or trailing slash, so
+// "https://example.com" and "https://example.com/#top" match
+function documentKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+// Build the "who loaded whom" graph rooted at the analyzed page. Scripts with
+// no known initiator hang off the page itself, as do those loaded by any
+// other document of the scan: the start URL before redirects, crawled pages
+// and journey steps.
+export function buildDependencyGraph(
+  pageUrl: string,
+  scripts: ScriptInfo[],
+  inlineScripts: InlineScript[] = [],
+  injections: ScriptInjection[] = [],
+  documentUrls: string[] = []
+): DependencyGraph {
+  const nodes = new Map<string, DependencyNode>();
+  const edges = new Map<string, { from: string; to: string }>();
+  const pageKeys = new Set([pageUrl, ...documentUrls].map(documentKey));
+  const isPage = (url: string) => pageKeys.has(documentKey(url));
+
+  nodes.set(pageUrl, { id: pageUrl, type: "page", host: hostOf(pageUrl) });
+
+  for (const script of scripts) {
+    nodes.set(script.url, {
+      id: script.url,
+      type: "script",
+      host: hostOf(script.url),
+    });
+  }
+
+  for (const inline of inlineScripts) {
+    nodes.set(inline.hash, { id: inline.hash, type: "inline", host: "" });
+  }
+
+  // The in-page collector knows who injected dynamic scripts even when the
+  // network initiator only points at the document.
+  const injectedBy = new Map<string, string>();
+  for (const injection of injections) {
+    if (injection.injectedBy) {
+      injectedBy.set(injection.script, injection.injectedBy);
+    }
+  }
+
+  const link = (from: string | undefined, to: string) => {
+    const parent = from && from !== to && !isPage(from) ? from : pageUrl;
+    if (!nodes.has(parent)) {
+      // An initiator we never saw as a script request (e.g. a worker or
+      // an eval'd loader) still belongs in the chain.
+      nodes.set(parent, { id: parent, type: "script", host: hostOf(parent) });
+    }
+    edges.set(`${parent}->${to}`, { from: parent, to });
+  };
+
+  for (const script of scripts) {
+    const initiatorUrl = script.initiator?.url;
+    const parent =
+      initiatorUrl && !isPage(initiatorUrl)
+        ? initiatorUrl
+        : injectedBy.get(script.url) || initiatorUrl;
+    link(parent, script.url);
+  }
+
+  for (const inline of inlineScripts) {
+    link(inline.injectedBy, inline.hash);
+  }
+
+  return {
+    root: pageUrl,
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
@@ -1,8 +1,41 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
-import puppeteer from "@cloudflare/puppeteer";
-import type { Env, AnalysisResult, ScriptInfo, ChatRequest } from "../types";
-import { analyzeScript } from "./analyzer";
+import { bearerAuth } from "hono/bearer-auth";
+import type {
+  Env,
+  AnalysisResult,
+  ChatRequest,
+  ConsentCookie,
+  CrawlOptions,
+  JourneyStep,
+  ScanOptions,
+  ScriptVerdict,
+  ServiceSignature,
+} from "../types";
+import { scanWebsite, PageLoadError } from "./scan";
+import { generateCsp } from "./csp";
+import { normalizeOwnDomains } from "./first-party";
+import { normalizeConsentCookies } from "./consent";
+import { normalizeCrawlOptions } from "./crawl";
+import {
+  journeyCredentials,
+  normalizeCredentials,
+  normalizeJourney,
+  validateJourney,
+} from "./journey";
+import {
+  getVerdict,
+  overrideVerdict,
+  purgeVerdict,
+  type VerdictTarget,
+} from "./cache";
+import {
+  deleteCustomSignature,
+  getCustomSignatures,
+  loadSignatures,
+  saveCustomSignatures,
+  validateSignature,
+} from "./signatures";
 import { handleChatMessage } from "./chat";
 
 export { ScriptAnalyzer } from "../durable-objects/ScriptAnalyzer";
@@ -23,10 +56,78 @@ app.get("/", (c) => {
 // Group routes under /api/v1
 const api = new Hono<{ Bindings: Env }>();
 
+// Helper: The Durable Object instance holding analyses and the watchlist
+function globalAnalyzer(env: Env) {
+  const id = env.SCRIPT_ANALYZER.idFromName("global");
+  return env.SCRIPT_ANALYZER.get(id);
+}
+
+// Helper: The Durable Object instance running one async scan job
+function scanJob(env: Env, jobId: string) {
+  const id = env.SCRIPT_ANALYZER.idFromName(`scan:${jobId}`);
+  return env.SCRIPT_ANALYZER.get(id);
+}
+
+// Scan options as accepted in request bodies
+interface ScanOptionsBody {
+  ownDomains?: string[];
+  compareConsent?: boolean;
+  consentCookies?: ConsentCookie[];
+  // true crawls with the default limits
+  crawl?: Partial<CrawlOptions> | boolean;
+  journey?: JourneyStep[];
+}
+
+// Helper: Validated scan options; only fields present in the body are set
+function scanOptions(body: ScanOptionsBody): ScanOptions {
+  const options: ScanOptions = {};
+  if (body.ownDomains !== undefined) {
+    options.ownDomains = normalizeOwnDomains(body.ownDomains);
+  }
+  if (body.compareConsent !== undefined) {
+    options.compareConsent = body.compareConsent === true;
+  }
+  if (body.consentCookies !== undefined) {
+    options.consentCookies = normalizeConsentCookies(body.consentCookies);
+  }
+  if (body.crawl !== undefined) {
+    options.crawl = normalizeCrawlOptions(body.crawl);
+  }
+  if (body.journey !== undefined) {
+    options.journey = normalizeJourney(body.journey);
+  }
+  return options;
+}
+
+// Helper: What's wrong with the scan options in a body, if anything.
+// Journeys that type credentials need them supplied with the same request;
+// stored scans (watches) can't have them at all.
+function scanOptionsProblem(
+  body: ScanOptionsBody,
+  credentials: Record<string, string> | null
+): string | null {
+  if (body.journey === undefined) return null;
+
+  const problem = validateJourney(body.journey);
+  if (problem) return problem;
+
+  const needed = journeyCredentials(normalizeJourney(body.journey));
+  if (needed.length > 0 && !credentials) {
+    return "Journeys with credentials can only run in one-off scans";
+  }
+  const missing = needed.filter((name) => credentials?.[name] === undefined);
+  if (missing.length > 0) {
+    return `Missing credentials: ${missing.join(", ")}`;
+  }
+  return null;
+}
+
 // Main analysis endpoint with AI
 api.post("/analyze", async (c) => {
   try {
-    const { url } = await c.req.json<{ url: string }>();
+    const { url, credentials, ...body } = await c.req.json<
+      { url: string; credentials?: Record<string, string> } & ScanOptionsBody
+    >();
 
     if (!url) {
       return c.json({ error: "URL is required" }, 400);
@@ -38,140 +139,587 @@ api.post("/analyze", async (c) => {
       return c.json({ error: "Invalid URL format" }, 400);
     }
 
-    console.log(`[Script Sentinel] Analyzing: ${url}`);
+    // Test credentials are used for this scan only and never stored
+    const secrets = normalizeCredentials(credentials);
+    const problem = scanOptionsProblem(body, secrets);
+    if (problem) {
+      return c.json({ error: "Invalid scan options", message: problem }, 400);
+    }
+
+    let result: AnalysisResult;
+    try {
+      result = await scanWebsite(
+        url,
+        c.env,
+        scanOptions(body),
+        undefined,
+        secrets
+      );
+    } catch (scanError) {
+      if (scanError instanceof PageLoadError) {
+        return c.json(
+          {
+            error: "Failed to load page",
+            message: "The website could not be loaded.",
+          },
+          504
+        );
+      }
+      throw scanError;
+    }
+
+    // Store in Durable Object
+    try {
+      const stored = await globalAnalyzer(c.env).fetch("http://internal/store", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+
+      // The id lets the UI reopen this scan from history
+      if (stored.ok) {
+        const { id, scannedAt } = await stored.json<{
+          id: string;
+          scannedAt: number;
+        }>();
+        result = { ...result, id, scannedAt };
+      }
+    } catch (storageError) {
+      console.error("[Script Sentinel] Storage error:", storageError);
+    }
+
+    return c.json(result);
+  } catch (error) {
+    console.error("[Script Sentinel] Error:", error);
+    return c.json(
+      {
+        error: "Analysis failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      500
+    );
+  }
+});
 
-    // Launch browser
-    const browser = await puppeteer.launch(c.env.MYBROWSER);
-    const page = await browser.newPage();
+// Start a scan in the background; progress streams from /scans/:id/events
+api.post("/scans", async (c) => {
+  try {
+    const { url, credentials, ...body } = await c.req.json<
+      { url: string; credentials?: Record<string, string> } & ScanOptionsBody
+    >();
 
-    const scripts: ScriptInfo[] = [];
-    const pageDomain = new URL(url).hostname;
+    if (!url) {
+      return c.json({ error: "URL is required" }, 400);
+    }
 
-    await page.setRequestInterception(true);
+    try {
+      new URL(url);
+    } catch {
+      return c.json({ error: "Invalid URL format" }, 400);
+    }
 
-    page.on("request", (req) => {
-      const requestUrl = req.url();
-      const resourceType = req.resourceType();
+    // Test credentials are used for this scan only and never stored
+    const secrets = normalizeCredentials(credentials);
+    const problem = scanOptionsProblem(body, secrets);
+    if (problem) {
+      return c.json({ error: "Invalid scan options", message: problem }, 400);
+    }
 
-      // Log JavaScript files
-      if (resourceType === "script") {
-        scripts.push({
-          url: requestUrl,
-          timestamp: Date.now(),
-        });
+    const jobId = crypto.randomUUID();
+    const response = await scanJob(c.env, jobId).fetch(
+      "http://internal/job/start",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: jobId,
+          url,
+          options: scanOptions(body),
+          // Held in the job's memory until the scan starts, never stored
+          credentials: secrets,
+        }),
       }
+    );
+    return c.json(await response.json(), response.status as 202 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to start scan" }, 500);
+  }
+});
 
-      // Block heavy resources we don't need
-      if (["image", "stylesheet", "font", "media"].includes(resourceType)) {
-        req.abort();
-        return;
-      }
+api.get("/scans/:id", async (c) => {
+  try {
+    const response = await scanJob(c.env, c.req.param("id")).fetch(
+      "http://internal/job"
+    );
+    return c.json(await response.json(), response.status as 200 | 404);
+  } catch (error) {
+    return c.json({ error: "Failed to get scan" }, 500);
+  }
+});
+
+// Server-Sent Events: queued, page_loaded, scripts_found, script_analyzed
+// for each script, then done (with the stored result) or error
+api.get("/scans/:id/events", async (c) => {
+  try {
+    const headers = new Headers();
+    const lastEventId = c.req.header("Last-Event-ID");
+    if (lastEventId) headers.set("Last-Event-ID", lastEventId);
 
-      // Continue the request
-      req.continue();
+    const response = await scanJob(c.env, c.req.param("id")).fetch(
+      "http://internal/job/events",
+      { headers }
+    );
+    return response;
+  } catch (error) {
+    return c.json({ error: "Failed to stream scan events" }, 500);
+  }
+});
+
+// Generate a Content Security Policy from an analysis
+api.post("/csp", async (c) => {
+  try {
+    const { analysisData, reportUri } = await c.req.json<{
+      analysisData: AnalysisResult;
+      reportUri?: string;
+    }>();
+
+    if (!analysisData || !Array.isArray(analysisData.scripts)) {
+      return c.json({ error: "Analysis data is required" }, 400);
+    }
+
+    return c.json(generateCsp(analysisData, { reportUri }));
+  } catch (error) {
+    console.error("[CSP Error]", error);
+    return c.json(
+      {
+        error: "CSP generation failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      500
+    );
+  }
+});
+
+// Analysis history
+api.get("/analyses", async (c) => {
+  try {
+    const params = new URLSearchParams();
+    for (const name of ["host", "from", "to", "limit", "cursor"]) {
+      const value = c.req.query(name);
+      if (value) params.set(name, value);
+    }
+
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/analyses?${params}`
+    );
+    return c.json(await response.json(), response.status as 200 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to list analyses" }, 500);
+  }
+});
+
+api.get("/analyses/:id", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/analyses/get?id=${id}`
+    );
+    return c.json(await response.json(), response.status as 200 | 404 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to get analysis" }, 500);
+  }
+});
+
+// Site-level grade and rollup only, for dashboards
+api.get("/analyses/:id/summary", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/analyses/get?id=${id}`
+    );
+    if (!response.ok) {
+      return c.json(await response.json(), response.status as 404 | 500);
+    }
+
+    const analysis = await response.json<AnalysisResult>();
+    if (!analysis.summary) {
+      return c.json({ error: "Analysis has no summary" }, 404);
+    }
+
+    return c.json({
+      id: analysis.id,
+      url: analysis.url,
+      scannedAt: analysis.scannedAt,
+      summary: analysis.summary,
     });
+  } catch (error) {
+    return c.json({ error: "Failed to get summary" }, 500);
+  }
+});
 
-    // Load page with fallback strategy
-    let loadSuccess = false;
+// Compare two stored scans of the same site
+api.get("/sites/:host/diff", async (c) => {
+  try {
+    const host = c.req.param("host");
+    const params = new URLSearchParams({ host });
+    const from = c.req.query("from");
+    const to = c.req.query("to");
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/diff?${params}`
+    );
+    return c.json(await response.json(), response.status as 200 | 400 | 404 | 500);
+  } catch (error) {
+    console.error("[Diff Error]", error);
+    return c.json(
+      {
+        error: "Diff failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      500
+    );
+  }
+});
+
+// Watchlist for scheduled rescans
+api.get("/watch", async (c) => {
+  try {
+    const response = await globalAnalyzer(c.env).fetch("http://internal/watch");
+    return c.json(await response.json(), response.status as 200 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to list watched sites" }, 500);
+  }
+});
+
+api.post("/watch", async (c) => {
+  try {
+    const { url, intervalMinutes, ...body } = await c.req.json<
+      { url: string; intervalMinutes?: number } & ScanOptionsBody
+    >();
+
+    if (!url) {
+      return c.json({ error: "URL is required" }, 400);
+    }
 
-    // Strategy 1: Try networkidle2 (balanced)
     try {
-      console.log("[Script Sentinel] Loading with networkidle2...");
-      await page.goto(url, {
-        waitUntil: "networkidle2",
-        timeout: 45000,
-      });
-      loadSuccess = true;
+      new URL(url);
     } catch {
-      console.log("[Script Sentinel] Fallback to domcontentloaded...");
-      // Strategy 2: Fallback to domcontentloaded
-      try {
-        await page.goto(url, {
-          waitUntil: "domcontentloaded",
-          timeout: 30000,
-        });
-        loadSuccess = true;
-
-        // Give time for scripts to load after DOM ready
-        await new Promise((resolve) => setTimeout(resolve, 5000));
-      } catch (fallbackError) {
-        await browser.close();
-        return c.json(
-          {
-            error: "Failed to load page",
-            message: "The website could not be loaded.",
-          },
-          504
-        );
-      }
+      return c.json({ error: "Invalid URL format" }, 400);
     }
 
-    // Wait a bit more for dynamic scripts
-    if (loadSuccess) {
-      await new Promise((resolve) => setTimeout(resolve, 3000));
+    const problem = scanOptionsProblem(body, null);
+    if (problem) {
+      return c.json({ error: "Invalid scan options", message: problem }, 400);
     }
 
-    await browser.close();
+    const response = await globalAnalyzer(c.env).fetch(
+      "http://internal/watch",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          intervalMinutes,
+          options: scanOptions(body),
+        }),
+      }
+    );
+    return c.json(await response.json(), response.status as 201 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to create watch" }, 500);
+  }
+});
 
-    console.log("Scripts", scripts);
+api.patch("/watch/:id", async (c) => {
+  try {
+    const { url, intervalMinutes, enabled, ...body } = await c.req.json<
+      {
+        url?: string;
+        intervalMinutes?: number;
+        enabled?: boolean;
+      } & ScanOptionsBody
+    >();
 
-    // Filter third-party scripts
-    const thirdPartyScripts = scripts.filter((s) => {
+    if (url !== undefined) {
       try {
-        const scriptDomain = new URL(s.url).hostname;
-        return scriptDomain !== pageDomain;
+        new URL(url);
       } catch {
-        return false;
+        return c.json({ error: "Invalid URL format" }, 400);
       }
-    });
+    }
+
+    const problem = scanOptionsProblem(body, null);
+    if (problem) {
+      return c.json({ error: "Invalid scan options", message: problem }, 400);
+    }
 
-    console.log(
-      `[Script Sentinel] Found ${thirdPartyScripts.length} third-party scripts`
+    // Only the options sent are changed; the rest are kept
+    const options = scanOptions(body);
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/watch?id=${id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          intervalMinutes,
+          enabled,
+          options: Object.keys(options).length > 0 ? options : undefined,
+        }),
+      }
     );
-    console.log("[Script Sentinel] Starting AI analysis...");
+    return c.json(await response.json(), response.status as 200 | 404 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to update watch" }, 500);
+  }
+});
 
-    // Analyze each script with AI
-    const analyses = await Promise.all(
-      thirdPartyScripts.slice(0, 10).map(
-        (script) => analyzeScript(script, pageDomain, c.env) // ← Add pageDomain
-      )
+api.delete("/watch/:id", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/watch?id=${id}`,
+      { method: "DELETE" }
     );
+    return c.json(await response.json(), response.status as 200 | 404 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to delete watch" }, 500);
+  }
+});
 
-    console.log("[Script Sentinel] AI analysis complete");
+// Webhook alert targets
+api.get("/webhooks", async (c) => {
+  try {
+    const response = await globalAnalyzer(c.env).fetch(
+      "http://internal/webhooks"
+    );
+    return c.json(await response.json(), response.status as 200 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to list webhooks" }, 500);
+  }
+});
 
-    const result: AnalysisResult = {
-      success: true,
-      url: url,
-      totalScripts: scripts.length,
-      thirdPartyScripts: thirdPartyScripts.length,
-      scripts: thirdPartyScripts,
-      analyses: analyses,
-    };
+api.post("/webhooks", async (c) => {
+  try {
+    const body = await c.req.json<{
+      url: string;
+      format?: "generic" | "slack";
+      secret?: string;
+      events?: string[];
+      hosts?: string[];
+    }>();
+
+    if (!body.url) {
+      return c.json({ error: "URL is required" }, 400);
+    }
 
-    // Store in Durable Object
     try {
-      const id = c.env.SCRIPT_ANALYZER.idFromName("global");
-      const stub = c.env.SCRIPT_ANALYZER.get(id);
+      new URL(body.url);
+    } catch {
+      return c.json({ error: "Invalid URL format" }, 400);
+    }
 
-      await stub.fetch("http://internal/store", {
+    const response = await globalAnalyzer(c.env).fetch(
+      "http://internal/webhooks",
+      {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(result),
-      });
-    } catch (storageError) {
-      console.error("[Script Sentinel] Storage error:", storageError);
+        body: JSON.stringify(body),
+      }
+    );
+    return c.json(await response.json(), response.status as 201 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to create webhook" }, 500);
+  }
+});
+
+api.delete("/webhooks/:id", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/webhooks?id=${id}`,
+      { method: "DELETE" }
+    );
+    return c.json(await response.json(), response.status as 200 | 404 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to delete webhook" }, 500);
+  }
+});
+
+api.get("/webhooks/:id/deliveries", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/webhooks/deliveries?id=${id}`
+    );
+    return c.json(await response.json(), response.status as 200 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to list deliveries" }, 500);
+  }
+});
+
+api.post("/webhooks/:id/test", async (c) => {
+  try {
+    const id = encodeURIComponent(c.req.param("id"));
+    const response = await globalAnalyzer(c.env).fetch(
+      `http://internal/webhooks/test?id=${id}`,
+      { method: "POST" }
+    );
+    return c.json(await response.json(), response.status as 200 | 404 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to test webhook" }, 500);
+  }
+});
+
+// Admin: inspect, override or purge cached script verdicts
+api.use(
+  "/admin/*",
+  bearerAuth({
+    verifyToken: (token, c) =>
+      Boolean(c.env.ADMIN_TOKEN) && token === c.env.ADMIN_TOKEN,
+  })
+);
+
+// Helper: ?url= and/or ?hash= naming a cache entry
+function verdictTarget(url?: string, hash?: string): VerdictTarget | null {
+  return url || hash ? { url, hash } : null;
+}
+
+api.get("/admin/cache", async (c) => {
+  try {
+    const target = verdictTarget(c.req.query("url"), c.req.query("hash"));
+    if (!target) {
+      return c.json({ error: "url or hash is required" }, 400);
     }
 
-    return c.json(result);
+    return c.json({ entries: await getVerdict(c.env.CACHE, target) });
   } catch (error) {
-    console.error("[Script Sentinel] Error:", error);
-    return c.json(
-      {
-        error: "Analysis failed",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
+    return c.json({ error: "Failed to read cache" }, 500);
+  }
+});
+
+api.put("/admin/cache", async (c) => {
+  try {
+    const { url, hash, verdict } = await c.req.json<{
+      url?: string;
+      hash?: string;
+      verdict: ScriptVerdict;
+    }>();
+
+    const target = verdictTarget(url, hash);
+    if (!target) {
+      return c.json({ error: "url or hash is required" }, 400);
+    }
+
+    if (
+      !verdict?.scriptName ||
+      !["LOW", "MEDIUM", "HIGH", "CRITICAL"].includes(verdict.riskLevel) ||
+      !["ALLOW", "MONITOR", "BLOCK"].includes(verdict.recommendation)
+    ) {
+      return c.json(
+        {
+          error:
+            "verdict needs scriptName, riskLevel (LOW|MEDIUM|HIGH|CRITICAL) and recommendation (ALLOW|MONITOR|BLOCK)",
+        },
+        400
+      );
+    }
+
+    const entry = await overrideVerdict(c.env.CACHE, target, {
+      scriptName: verdict.scriptName,
+      purpose: verdict.purpose || "Set by an administrator",
+      dataCollected: verdict.dataCollected || [],
+      riskLevel: verdict.riskLevel,
+      reasoning: verdict.reasoning || "Verdict overridden by an administrator",
+      recommendation: verdict.recommendation,
+      userFriendlyExplanation: verdict.userFriendlyExplanation || "",
+    });
+    return c.json({ success: true, entry });
+  } catch (error) {
+    return c.json({ error: "Failed to override verdict" }, 500);
+  }
+});
+
+api.delete("/admin/cache", async (c) => {
+  try {
+    const target = verdictTarget(c.req.query("url"), c.req.query("hash"));
+    if (!target) {
+      return c.json({ error: "url or hash is required" }, 400);
+    }
+
+    const purged = await purgeVerdict(c.env.CACHE, target);
+    return c.json({ success: true, purged });
+  } catch (error) {
+    return c.json({ error: "Failed to purge verdict" }, 500);
+  }
+});
+
+// Admin: known-service signatures. Custom signatures live in KV and layer
+// over the builtin set by id, so changes apply without a redeploy.
+api.get("/admin/signatures", async (c) => {
+  try {
+    return c.json({
+      active: await loadSignatures(c.env.CACHE),
+      custom: await getCustomSignatures(c.env.CACHE),
+    });
+  } catch (error) {
+    return c.json({ error: "Failed to load signatures" }, 500);
+  }
+});
+
+// Helper: Validate submitted signatures and save a new custom version
+async function saveSignatures(c: Context<{ Bindings: Env }>, replace: boolean) {
+  try {
+    const { signatures } = await c.req.json<{
+      signatures: ServiceSignature[];
+    }>();
+
+    if (!Array.isArray(signatures)) {
+      return c.json({ error: "signatures must be an array" }, 400);
+    }
+
+    for (const signature of signatures) {
+      const problem = validateSignature(signature);
+      if (problem) {
+        return c.json({ error: "Invalid signature", message: problem }, 400);
+      }
+    }
+
+    const custom = await saveCustomSignatures(c.env.CACHE, signatures, replace);
+    return c.json({ success: true, custom });
+  } catch (error) {
+    return c.json({ error: "Failed to save signatures" }, 500);
+  }
+}
+
+// POST adds or updates signatures; PUT replaces the whole custom set
+api.post("/admin/signatures", (c) => saveSignatures(c, false));
+api.put("/admin/signatures", (c) => saveSignatures(c, true));
+
+api.delete("/admin/signatures/:id", async (c) => {
+  try {
+    const custom = await deleteCustomSignature(c.env.CACHE, c.req.param("id"));
+    if (!custom) {
+      return c.json({ error: "Custom signature not found" }, 404);
+    }
+    return c.json({ success: true, custom });
+  } catch (error) {
+    return c.json({ error: "Failed to delete signature" }, 500);
+  }
+});
+
+// Admin: how often AI verdicts needed repairs, retries or the fallback
+api.get("/admin/telemetry", async (c) => {
+  try {
+    const response = await globalAnalyzer(c.env).fetch(
+      "http://internal/telemetry/ai"
     );
+    return c.json(await response.json(), response.status as 200 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to get telemetry" }, 500);
   }
 });
 
@@ -239,6 +787,21 @@ api.post("/chat", async (c) => {
   }
 });
 
+api.get("/chat/:sessionId/history", async (c) => {
+  try {
+    const sessionId = c.req.param("sessionId");
+    const id = c.env.SCRIPT_ANALYZER.idFromName(sessionId);
+    const stub = c.env.SCRIPT_ANALYZER.get(id);
+
+    const response = await stub.fetch(
+      `http://internal/chat/history?sessionId=${encodeURIComponent(sessionId)}`
+    );
+    return c.json(await response.json(), response.status as 200 | 400 | 500);
+  } catch (error) {
+    return c.json({ error: "Failed to get chat history" }, 500);
+  }
+});
+
 api.post("/chat/init", async (c) => {
   try {
     const { sessionId, analysisData } = await c.req.json<{
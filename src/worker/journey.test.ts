@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeStep,
+  journeyCredentials,
+  normalizeCredentials,
+  normalizeJourney,
+  redactCredentials,
+  validateJourney,
+} from "./journey";
+
+describe("redactCredentials", () => {
+  const credentials = { password: "hunter2!secret", pin: "123" };
+
+  it("redacts plain, URL-encoded and base64 forms anywhere in a value", () => {
+    const redacted = redactCredentials(
+      {
+        url: `https://evil.top/c?p=${encodeURIComponent("hunter2!secret")}`,
+        nested: [{ body: `pw=hunter2!secret&b=${btoa("hunter2!secret")}` }],
+      },
+      credentials
+    );
+
+    expect(redacted).toEqual({
+      url: "https://evil.top/c?p=[REDACTED]",
+      nested: [{ body: "pw=[REDACTED]&b=[REDACTED]" }],
+    });
+  });
+
+  it("leaves values too short to redact safely", () => {
+    const value = { body: "pin=123" };
+
+    expect(redactCredentials(value, credentials)).toEqual(value);
+  });
+
+  it("redacts values that need escaping in JSON", () => {
+    const redacted = redactCredentials(['say "open sesame"'], {
+      phrase: '"open sesame"',
+    });
+
+    expect(redacted).toEqual(["say [REDACTED]"]);
+  });
+
+  it("returns the value untouched without credentials", () => {
+    const value = { a: 1 };
+
+    expect(redactCredentials(value, {})).toBe(value);
+  });
+});
+
+describe("validateJourney", () => {
+  it("accepts every kind of step", () => {
+    expect(
+      validateJourney([
+        { action: "navigate", url: "https://shop.example.com/login" },
+        { action: "type", selector: "#email", value: "a@example.com" },
+        { action: "type", selector: "#password", credential: "password" },
+        { action: "click", selector: "button[type=submit]" },
+        { action: "waitFor", selector: ".account", timeoutMs: 5000 },
+      ])
+    ).toBeNull();
+  });
+
+  it("names the first broken step", () => {
+    expect(
+      validateJourney([
+        { action: "click", selector: "#ok" },
+        { action: "navigate", url: "javascript:alert(1)" },
+      ])
+    ).toBe("Step 2: navigate needs an http(s) url");
+    expect(validateJourney([{ action: "type", selector: "#q" }])).toBe(
+      "Step 1: type needs a value or a credential name"
+    );
+    expect(validateJourney([{ action: "hover" }])).toMatch(/^Step 1: action/);
+  });
+
+  it("rejects anything but an array of at most 25 steps", () => {
+    expect(validateJourney({})).toBe("journey must be an array of steps");
+    expect(
+      validateJourney(
+        Array.from({ length: 26 }, () => ({ action: "click", selector: "a" }))
+      )
+    ).toMatch(/at most 25 steps/);
+  });
+});
+
+describe("normalizeJourney", () => {
+  it("trims values, clamps timeouts and drops unknown fields", () => {
+    expect(
+      normalizeJourney([
+        { action: "click", selector: "  #buy ", timeoutMs: 999999, extra: 1 },
+        { action: "navigate", url: "ftp://example.com" },
+      ])
+    ).toEqual([{ action: "click", selector: "#buy", timeoutMs: 30000 }]);
+  });
+});
+
+describe("normalizeCredentials", () => {
+  it("keeps only string values of a flat object", () => {
+    expect(
+      normalizeCredentials({ password: "secret", nested: { a: 1 }, n: 1 })
+    ).toEqual({ password: "secret" });
+    expect(normalizeCredentials(["secret"])).toEqual({});
+  });
+});
+
+describe("journeyCredentials and describeStep", () => {
+  const journey = normalizeJourney([
+    { action: "type", selector: "#user", credential: "username" },
+    { action: "type", selector: "#note", value: "hello" },
+  ]);
+
+  it("lists the credentials a journey needs", () => {
+    expect(journeyCredentials(journey)).toEqual(["username"]);
+  });
+
+  it("never puts typed values in descriptions", () => {
+    expect(journey.map(describeStep)).toEqual([
+      'Type credential "username" into #user',
+      "Type 5 characters into #note",
+    ]);
+  });
+});
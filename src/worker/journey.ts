@@ -0,0 +1,194 @@
+import type { Page } from "@cloudflare/puppeteer";
+import type { JourneyStep } from "../types";
+
+const MAX_JOURNEY_STEPS = 25;
+const MAX_CREDENTIALS = 10;
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+const MAX_STEP_TIMEOUT_MS = 30000;
+// Per-key delay so keystroke listeners see real typing
+const TYPING_DELAY_MS = 25;
+// Shorter values would redact ordinary words out of the report
+const MIN_REDACTED_LENGTH = 4;
+
+// Thrown for a step that references a credential the scan wasn't given
+export class MissingCredentialError extends Error {
+  constructor(name: string) {
+    super(`Credential "${name}" was not supplied with this scan`);
+    this.name = "MissingCredentialError";
+  }
+}
+
+// Helper: Non-empty string or undefined
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Helper: One journey step from a request, or what's wrong with it
+function parseStep(raw: unknown, index: number): JourneyStep | string {
+  const step = (raw && typeof raw === "object" ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const selector = text(step.selector);
+  const timeoutMs =
+    typeof step.timeoutMs === "number"
+      ? Math.min(Math.max(step.timeoutMs, 0), MAX_STEP_TIMEOUT_MS)
+      : undefined;
+  const problem = (message: string) => `Step ${index + 1}: ${message}`;
+
+  switch (step.action) {
+    case "navigate": {
+      const url = text(step.url);
+      if (!url || !/^https?:\/\//i.test(url)) {
+        return problem("navigate needs an http(s) url");
+      }
+      return { action: "navigate", url };
+    }
+    case "click":
+      if (!selector) return problem("click needs a selector");
+      return { action: "click", selector, timeoutMs };
+    case "type": {
+      if (!selector) return problem("type needs a selector");
+      const credential = text(step.credential);
+      if (credential) return { action: "type", selector, credential };
+      if (typeof step.value !== "string") {
+        return problem("type needs a value or a credential name");
+      }
+      return { action: "type", selector, value: step.value };
+    }
+    case "waitFor":
+      if (!selector) return problem("waitFor needs a selector");
+      return { action: "waitFor", selector, timeoutMs };
+    default:
+      return problem("action must be navigate, click, type or waitFor");
+  }
+}
+
+export function validateJourney(input: unknown): string | null {
+  if (!Array.isArray(input)) return "journey must be an array of steps";
+  if (input.length > MAX_JOURNEY_STEPS) {
+    return `A journey can have at most ${MAX_JOURNEY_STEPS} steps`;
+  }
+  for (const [index, raw] of input.entries()) {
+    const step = parseStep(raw, index);
+    if (typeof step === "string") return step;
+  }
+  return null;
+}
+
+// Clean steps from a request validated with validateJourney
+export function normalizeJourney(input: unknown): JourneyStep[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .slice(0, MAX_JOURNEY_STEPS)
+    .map(parseStep)
+    .filter((step): step is JourneyStep => typeof step !== "string");
+}
+
+// Validate per-scan test credentials: a flat map of names to strings
+export function normalizeCredentials(input: unknown): Record<string, string> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+
+  const credentials: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input).slice(
+    0,
+    MAX_CREDENTIALS
+  )) {
+    if (typeof value === "string") credentials[name] = value;
+  }
+  return credentials;
+}
+
+// Names of the credentials a journey types in
+export function journeyCredentials(journey: JourneyStep[] = []): string[] {
+  return journey.flatMap((step) =>
+    step.action === "type" && step.credential ? [step.credential] : []
+  );
+}
+
+// Human-readable step for the report. Never includes typed values.
+export function describeStep(step: JourneyStep): string {
+  switch (step.action) {
+    case "navigate":
+      return `Navigate to ${step.url}`;
+    case "click":
+      return `Click ${step.selector}`;
+    case "type":
+      return step.credential
+        ? `Type credential "${step.credential}" into ${step.selector}`
+        : `Type ${step.value?.length || 0} characters into ${step.selector}`;
+    case "waitFor":
+      return `Wait for ${step.selector}`;
+  }
+}
+
+// Perform one step in the page
+export async function runStep(
+  page: Page,
+  step: JourneyStep,
+  credentials: Record<string, string>
+): Promise<void> {
+  switch (step.action) {
+    case "navigate":
+      await page.goto(step.url, {
+        waitUntil: "networkidle2",
+        timeout: MAX_STEP_TIMEOUT_MS,
+      });
+      return;
+
+    case "click": {
+      const timeout = step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+      await page.waitForSelector(step.selector, { visible: true, timeout });
+      await page.click(step.selector);
+      // Clicks may navigate or fire XHRs; either way let the network settle
+      await page
+        .waitForNetworkIdle({ idleTime: 500, timeout })
+        .catch(() => {});
+      return;
+    }
+
+    case "type": {
+      const value = step.credential
+        ? credentials[step.credential]
+        : step.value || "";
+      if (value === undefined) {
+        throw new MissingCredentialError(step.credential || "");
+      }
+      await page.waitForSelector(step.selector, {
+        visible: true,
+        timeout: DEFAULT_STEP_TIMEOUT_MS,
+      });
+      await page.type(step.selector, value, { delay: TYPING_DELAY_MS });
+      return;
+    }
+
+    case "waitFor":
+      await page.waitForSelector(step.selector, {
+        timeout: step.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS,
+      });
+      return;
+  }
+}
+
+// Replace every credential value anywhere in a JSON-serializable value.
+// Skimmers may send what we typed to their endpoints, and we record those
+// URLs; this keeps the credentials out of anything we store.
+export function redactCredentials<T>(
+  value: T,
+  credentials: Record<string, string>
+): T {
+  const secrets = Object.values(credentials)
+    .filter((secret) => secret.length >= MIN_REDACTED_LENGTH)
+    .flatMap((secret) => [
+      secret,
+      encodeURIComponent(secret),
+      btoa(String.fromCharCode(...new TextEncoder().encode(secret))),
+    ]);
+  if (secrets.length === 0) return value;
+
+  let json = JSON.stringify(value);
+  for (const secret of new Set(secrets)) {
+    json = json.split(JSON.stringify(secret).slice(1, -1)).join("[REDACTED]");
+  }
+  return JSON.parse(json) as T;
+}
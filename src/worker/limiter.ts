@@ -0,0 +1,25 @@
+// Run at most `concurrency` tasks at a time, starting queued tasks in order
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // The finishing task hands its slot straight to us
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
@@ -0,0 +1,284 @@
+import type { RuntimeEvent, ScriptBehavior } from "../types";
+
+// Upper bound on events kept in the page so a chatty script can't blow up memory
+const MAX_EVENTS = 5000;
+// Fingerprint calls have their own buffer, so cookie and storage chatter
+// can't crowd them out
+const MAX_FINGERPRINT_EVENTS = 1000;
+
+// Injected with page.evaluateOnNewDocument so it runs before any page script.
+// Kept as a string because it executes in the browser, not in the Worker.
+export const RUNTIME_MONITOR_SCRIPT = `(() => {
+  if (window.__sentinelEvents) return;
+
+  const events = [];
+  Object.defineProperty(window, "__sentinelEvents", {
+    value: events,
+    enumerable: false,
+  });
+  const fingerprintEvents = [];
+  Object.defineProperty(window, "__sentinelFingerprintEvents", {
+    value: fingerprintEvents,
+    enumerable: false,
+  });
+
+  const truncate = (value) => String(value).slice(0, 200);
+
+  const record = (type, details) => {
+    if (events.length >= ${MAX_EVENTS}) return;
+    events.push(
+      Object.assign(
+        { type: type, timestamp: Date.now(), stack: new Error().stack },
+        details || {}
+      )
+    );
+  };
+
+  // document.cookie
+  const cookieDesc = Object.getOwnPropertyDescriptor(Document.prototype, "cookie");
+  if (cookieDesc && cookieDesc.configurable) {
+    Object.defineProperty(Document.prototype, "cookie", {
+      configurable: true,
+      enumerable: cookieDesc.enumerable,
+      get() {
+        record("cookie_read");
+        return cookieDesc.get.call(this);
+      },
+      set(value) {
+        record("cookie_write", { value: truncate(value) });
+        cookieDesc.set.call(this, value);
+      },
+    });
+  }
+
+  // localStorage
+  const setItem = Storage.prototype.setItem;
+  Storage.prototype.setItem = function (key, value) {
+    try {
+      if (this === window.localStorage) {
+        record("localStorage_write", { key: truncate(key), value: truncate(value) });
+      }
+    } catch (e) {}
+    return setItem.apply(this, arguments);
+  };
+
+  // fetch
+  const originalFetch = window.fetch;
+  if (originalFetch) {
+    window.fetch = function (input, init) {
+      try {
+        const url = input && input.url ? input.url : String(input);
+        const method = (init && init.method) || (input && input.method) || "GET";
+        record("fetch", { url: new URL(url, location.href).href, method: method.toUpperCase() });
+      } catch (e) {}
+      return originalFetch.apply(this, arguments);
+    };
+  }
+
+  // XMLHttpRequest
+  const xhrOpen = XMLHttpRequest.prototype.open;
+  const xhrSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    try {
+      this.__sentinelRequest = {
+        method: String(method).toUpperCase(),
+        url: new URL(String(url), location.href).href,
+      };
+    } catch (e) {}
+    return xhrOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    if (this.__sentinelRequest) record("xhr", this.__sentinelRequest);
+    return xhrSend.apply(this, arguments);
+  };
+
+  // navigator.sendBeacon
+  if (navigator.sendBeacon) {
+    const sendBeacon = navigator.sendBeacon;
+    navigator.sendBeacon = function (url) {
+      try {
+        record("beacon", { url: new URL(String(url), location.href).href, method: "POST" });
+      } catch (e) {}
+      return sendBeacon.apply(this, arguments);
+    };
+  }
+
+  // WebSocket; request interception never sees these connections
+  const NativeWebSocket = window.WebSocket;
+  if (NativeWebSocket) {
+    window.WebSocket = function (url, protocols) {
+      try {
+        record("websocket", { url: new URL(String(url), location.href).href, method: "GET" });
+      } catch (e) {}
+      return protocols === undefined
+        ? new NativeWebSocket(url)
+        : new NativeWebSocket(url, protocols);
+    };
+    window.WebSocket.prototype = NativeWebSocket.prototype;
+    Object.assign(window.WebSocket, {
+      CONNECTING: 0,
+      OPEN: 1,
+      CLOSING: 2,
+      CLOSED: 3,
+    });
+  }
+
+  // Fingerprinting APIs, recorded once per call site and detail
+  const fingerprinted = new Set();
+  const fingerprint = (technique, api, detail) => {
+    if (fingerprintEvents.length >= ${MAX_FINGERPRINT_EVENTS}) return;
+    const stack = new Error().stack;
+    const key = api + "|" + detail + "|" + stack;
+    if (fingerprinted.has(key)) return;
+    fingerprinted.add(key);
+    fingerprintEvents.push({
+      type: "fingerprint",
+      timestamp: Date.now(),
+      stack: stack,
+      technique: technique,
+      api: api,
+      value: detail === undefined ? undefined : truncate(detail),
+    });
+  };
+
+  const wrapMethod = (proto, name, technique, api, detailOf) => {
+    if (!proto || typeof proto[name] !== "function") return;
+    const original = proto[name];
+    proto[name] = function () {
+      try {
+        fingerprint(technique, api, detailOf ? detailOf.apply(this, arguments) : undefined);
+      } catch (e) {}
+      return original.apply(this, arguments);
+    };
+  };
+
+  const wrapGetter = (proto, name, technique, api) => {
+    const desc = proto && Object.getOwnPropertyDescriptor(proto, name);
+    if (!desc || !desc.get || !desc.configurable) return;
+    Object.defineProperty(proto, name, {
+      configurable: true,
+      enumerable: desc.enumerable,
+      get() {
+        try {
+          fingerprint(technique, api);
+        } catch (e) {}
+        return desc.get.call(this);
+      },
+    });
+  };
+
+  const canvas = window.HTMLCanvasElement && HTMLCanvasElement.prototype;
+  const context2d = window.CanvasRenderingContext2D && CanvasRenderingContext2D.prototype;
+  wrapMethod(canvas, "toDataURL", "canvas", "HTMLCanvasElement.toDataURL");
+  wrapMethod(canvas, "toBlob", "canvas", "HTMLCanvasElement.toBlob");
+  wrapMethod(context2d, "getImageData", "canvas", "CanvasRenderingContext2D.getImageData");
+  wrapMethod(context2d, "fillText", "canvas", "CanvasRenderingContext2D.fillText");
+  wrapMethod(context2d, "strokeText", "canvas", "CanvasRenderingContext2D.strokeText");
+  wrapMethod(context2d, "measureText", "fonts", "CanvasRenderingContext2D.measureText", function () {
+    return this.font;
+  });
+  wrapMethod(window.WebGLRenderingContext && WebGLRenderingContext.prototype, "getParameter", "webgl", "WebGLRenderingContext.getParameter", (p) => p);
+  wrapMethod(window.WebGL2RenderingContext && WebGL2RenderingContext.prototype, "getParameter", "webgl", "WebGL2RenderingContext.getParameter", (p) => p);
+  wrapMethod(window.FontFaceSet && FontFaceSet.prototype, "check", "fonts", "document.fonts.check", (font) => font);
+  wrapMethod(window, "queryLocalFonts", "fonts", "queryLocalFonts");
+  wrapGetter(Navigator.prototype, "plugins", "plugins", "navigator.plugins");
+  wrapGetter(Navigator.prototype, "mimeTypes", "plugins", "navigator.mimeTypes");
+  wrapGetter(Navigator.prototype, "hardwareConcurrency", "hardware", "navigator.hardwareConcurrency");
+  wrapGetter(Navigator.prototype, "deviceMemory", "hardware", "navigator.deviceMemory");
+  wrapMethod(Navigator.prototype, "getBattery", "battery", "navigator.getBattery");
+  wrapMethod(window.MediaDevices && MediaDevices.prototype, "enumerateDevices", "media_devices", "navigator.mediaDevices.enumerateDevices");
+  wrapMethod(window.BaseAudioContext && BaseAudioContext.prototype, "createOscillator", "audio", "BaseAudioContext.createOscillator");
+
+  for (const name of ["AudioContext", "OfflineAudioContext", "webkitAudioContext"]) {
+    const NativeAudioContext = window[name];
+    if (!NativeAudioContext) continue;
+    window[name] = function () {
+      try {
+        fingerprint("audio", name);
+      } catch (e) {}
+      return new NativeAudioContext(...arguments);
+    };
+    window[name].prototype = NativeAudioContext.prototype;
+  }
+})();`;
+
+// Drains the runtime and fingerprint events recorded so far
+export const COLLECT_RUNTIME_EVENTS_EXPRESSION =
+  "(window.__sentinelEvents || []).splice(0).concat((window.__sentinelFingerprintEvents || []).splice(0))";
+
+// Helper: Script URLs of a captured stack's http(s) frames, innermost first
+export function stackFrames(stack: string | undefined): string[] {
+  if (!stack) return [];
+  return Array.from(
+    stack.matchAll(/(https?:\/\/[^\s()]+?):\d+:\d+/g),
+    (match) => match[1]
+  );
+}
+
+// Helper: Find the script responsible for an event from its captured stack.
+// Frames from the monitor itself have no URL, so the first http(s) frame is
+// the page script that triggered the hook.
+export function attributeEvent(stack: string | undefined): string | undefined {
+  return stackFrames(stack)[0];
+}
+
+// Attach the originating script URL to each recorded event
+export function attributeEvents(events: RuntimeEvent[]): RuntimeEvent[] {
+  return events.map((event) => ({
+    ...event,
+    scriptUrl: attributeEvent(event.stack),
+  }));
+}
+
+export function emptyBehavior(): ScriptBehavior {
+  return {
+    cookieReads: 0,
+    cookieWrites: 0,
+    localStorageWrites: 0,
+    fetchCalls: [],
+  };
+}
+
+// Group attributed events into a ScriptBehavior per script URL
+export function buildScriptBehaviors(
+  events: RuntimeEvent[]
+): Map<string, ScriptBehavior> {
+  const behaviors = new Map<string, ScriptBehavior>();
+
+  for (const event of events) {
+    if (!event.scriptUrl) continue;
+
+    let behavior = behaviors.get(event.scriptUrl);
+    if (!behavior) {
+      behavior = emptyBehavior();
+      behaviors.set(event.scriptUrl, behavior);
+    }
+
+    switch (event.type) {
+      case "cookie_read":
+        behavior.cookieReads++;
+        break;
+      case "cookie_write":
+        behavior.cookieWrites++;
+        break;
+      case "localStorage_write":
+        behavior.localStorageWrites++;
+        break;
+      case "fetch":
+      case "xhr":
+      case "beacon":
+      case "websocket":
+        if (event.url) {
+          behavior.fetchCalls.push({
+            url: event.url,
+            method: event.method || "GET",
+            timestamp: event.timestamp,
+            type: event.type,
+          });
+        }
+        break;
+    }
+  }
+
+  return behaviors;
+}
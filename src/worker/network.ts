@@ -0,0 +1,241 @@
+import type {
+  DataDestination,
+  IdentifierKind,
+  OutboundKind,
+  OutboundRequest,
+  RuntimeEvent,
+  ScriptBehavior,
+} from "../types";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+import { emptyBehavior } from "./monitor";
+
+// Upper bound on requests kept in memory per scan; past it requests are
+// only counted. The Durable Object stores the log in chunks of its own.
+const MAX_RECORDED_REQUESTS = 2000;
+// Only this much of each body is inspected for identifiers
+const MAX_INSPECTED_BODY = 4096;
+// Shorter cookie values ("1", "true") match by accident
+const MIN_COOKIE_VALUE_LENGTH = 8;
+
+// Request as seen by the interceptor, before identifier detection
+export interface CapturedRequest {
+  kind: OutboundKind;
+  method: string;
+  url: string;
+  initiator?: string;
+  page: string;
+  body?: string;
+  payloadBytes: number;
+  timestamp: number;
+}
+
+// Every request the page sent, up to the limit, and how many there were
+export interface RequestLog {
+  requests: CapturedRequest[];
+  total: number;
+}
+
+// Record one intercepted request, keeping only the start of its body
+export function captureRequest(
+  log: RequestLog,
+  request: CapturedRequest
+): void {
+  log.total++;
+  if (log.requests.length >= MAX_RECORDED_REQUESTS) return;
+  log.requests.push({
+    ...request,
+    body: request.body?.slice(0, MAX_INSPECTED_BODY),
+  });
+}
+
+// Bytes a request carries out: its body plus its query string, which is
+// where pixels and beacons put their data
+export function payloadSize(url: string, body: string | undefined): number {
+  const query = url.split("?")[1] || "";
+  return new TextEncoder().encode(`${query}${body || ""}`).length;
+}
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+
+// Parameter names that carry identifiers, by what they identify
+const IDENTIFIER_PARAMS: [RegExp, IdentifierKind][] = [
+  [/^(uid|user_?id|userid|customer_?id|member_?id|external_?id|em|email)$/i, "user_id"],
+  [/^(gclid|fbclid|msclkid|ttclid|dclid|twclid|li_fat_id|_fbc|fbc)$/i, "click_id"],
+  [/^(cid|client_?id|device_?id|anonymous_?id|visitor_?id|_ga|_fbp|fbp|vid|did)$/i, "device_id"],
+];
+
+// What kind of outbound request this is, or null for page resources we
+// don't treat as data leaving the page (scripts, styles, navigations)
+export function classifyRequest(
+  resourceType: string,
+  method: string
+): OutboundKind | null {
+  switch (resourceType) {
+    case "xhr":
+      return "xhr";
+    case "fetch":
+      return "fetch";
+    case "ping":
+      return "beacon";
+    case "image":
+      return "pixel";
+    case "websocket":
+      return "websocket";
+    case "document":
+      return method === "POST" ? "form" : null;
+    case "eventsource":
+    case "other":
+      return "other";
+    default:
+      return null;
+  }
+}
+
+// Helper: Decoded query and body text, for substring checks
+function inspectedText(request: CapturedRequest): string {
+  const query = request.url.split("?")[1] || "";
+  const raw = `${query}&${request.body || ""}`;
+  try {
+    return decodeURIComponent(raw.replace(/\+/g, " "));
+  } catch {
+    return raw;
+  }
+}
+
+// Helper: Parameter names in the query and a form-encoded or JSON body
+function parameterNames(request: CapturedRequest): string[] {
+  const names: string[] = [];
+  try {
+    names.push(...new URL(request.url).searchParams.keys());
+  } catch {
+    // Unparseable URL; the text checks still run
+  }
+
+  const body = (request.body || "").trim();
+  if (body.startsWith("{")) {
+    names.push(...(body.match(/"([\w.-]+)"\s*:/g) || []).map((m) =>
+      m.replace(/["\s:]/g, "")
+    ));
+  } else if (body.includes("=")) {
+    names.push(...new URLSearchParams(body).keys());
+  }
+  return names;
+}
+
+// Identifiers in a request's query or body: email addresses, values of the
+// page's cookies, and well-known user, click and device id parameters
+export function detectIdentifiers(
+  request: CapturedRequest,
+  cookieValues: string[]
+): IdentifierKind[] {
+  const found = new Set<IdentifierKind>();
+  const text = inspectedText(request);
+
+  if (EMAIL.test(text)) found.add("email");
+  if (cookieValues.some((value) => text.includes(value))) found.add("cookie");
+
+  for (const name of parameterNames(request)) {
+    const match = IDENTIFIER_PARAMS.find(([pattern]) => pattern.test(name));
+    if (match) found.add(match[1]);
+  }
+
+  return Array.from(found);
+}
+
+// WebSocket connections come from the runtime monitor; the interceptor
+// never sees them
+export function websocketRequests(
+  events: RuntimeEvent[],
+  page: string
+): CapturedRequest[] {
+  return events
+    .filter((event) => event.type === "websocket" && event.url)
+    .map((event) => ({
+      kind: "websocket",
+      method: "GET",
+      url: event.url || "",
+      initiator: event.scriptUrl,
+      page,
+      payloadBytes: 0,
+      timestamp: event.timestamp,
+    }));
+}
+
+// Finalize captured requests for the report: identifiers detected, query
+// strings and bodies dropped so no identifier values are stored
+export function buildNetworkMap(
+  captured: CapturedRequest[],
+  cookieValues: string[],
+  scope: FirstPartyScope
+): OutboundRequest[] {
+  const values = cookieValues.filter(
+    (value) => value.length >= MIN_COOKIE_VALUE_LENGTH
+  );
+
+  const requests: OutboundRequest[] = [];
+  for (const request of captured) {
+    let parsed: URL;
+    try {
+      parsed = new URL(request.url);
+    } catch {
+      continue;
+    }
+
+    requests.push({
+      kind: request.kind,
+      method: request.method,
+      host: parsed.hostname,
+      path: parsed.pathname,
+      initiator: request.initiator,
+      page: request.page,
+      payloadBytes: request.payloadBytes,
+      identifiers: detectIdentifiers(request, values),
+      thirdParty: !isFirstParty(request.url, scope),
+      timestamp: request.timestamp,
+    });
+  }
+  return requests;
+}
+
+// Group each script's requests by destination host and attach them to its
+// behavior, creating behaviors for scripts the monitor never saw
+export function attachDestinations(
+  behaviors: Map<string, ScriptBehavior>,
+  requests: OutboundRequest[]
+): void {
+  const byScript = new Map<string, Map<string, DataDestination>>();
+
+  for (const request of requests) {
+    if (!request.initiator) continue;
+
+    const hosts = byScript.get(request.initiator) || new Map();
+    byScript.set(request.initiator, hosts);
+
+    const destination: DataDestination = hosts.get(request.host) || {
+      host: request.host,
+      kinds: [],
+      requests: 0,
+      payloadBytes: 0,
+      identifiers: [],
+    };
+    destination.requests++;
+    destination.payloadBytes += request.payloadBytes;
+    if (!destination.kinds.includes(request.kind)) {
+      destination.kinds.push(request.kind);
+    }
+    for (const identifier of request.identifiers) {
+      if (!destination.identifiers.includes(identifier)) {
+        destination.identifiers.push(identifier);
+      }
+    }
+    hosts.set(request.host, destination);
+  }
+
+  for (const [scriptUrl, hosts] of byScript) {
+    const behavior = behaviors.get(scriptUrl) || emptyBehavior();
+    behavior.destinations = Array.from(hosts.values()).sort(
+      (a, b) => b.requests - a.requests
+    );
+    behaviors.set(scriptUrl, behavior);
+  }
+}
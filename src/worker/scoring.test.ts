@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import type { ScriptAnalysis, SignatureMatch, StaticFinding } from "../types";
+import { createFirstPartyScope } from "./first-party";
+import { scoreScript } from "./scoring";
+
+const scope = createFirstPartyScope("https://shop.example.com/");
+
+function analysis(overrides: Partial<ScriptAnalysis> = {}): ScriptAnalysis {
+  return {
+    scriptUrl: "https://js.vendor.com/widget.js",
+    scriptName: "Widget",
+    purpose: "Chat widget",
+    dataCollected: [],
+    destinations: [],
+    riskLevel: "LOW",
+    reasoning: "",
+    recommendation: "ALLOW",
+    userFriendlyExplanation: "",
+    verdictSource: "signature",
+    ...overrides,
+  };
+}
+
+function signature(category: SignatureMatch["category"]): SignatureMatch {
+  return { id: "vendor", vendor: "Vendor", category, version: "test" };
+}
+
+const miner: StaticFinding = {
+  type: "crypto_mining",
+  severity: "CRITICAL",
+  description: "Crypto mining",
+  evidence: "CoinHive.Anonymous",
+};
+
+const skimming = {
+  type: "canary_exfiltration" as const,
+  severity: "CRITICAL" as const,
+  field: "card_number" as const,
+  description: "Sent the card number typed into the page to evil.top",
+  evidence: "POST fetch to evil.top",
+};
+
+describe("scoreScript", () => {
+  it("allows a known low-risk vendor with nothing observed", () => {
+    const scored = scoreScript(
+      analysis({ signature: signature("support") }),
+      scope
+    );
+
+    expect(scored.riskLevel).toBe("LOW");
+    expect(scored.recommendation).toBe("ALLOW");
+    expect(scored.riskScore?.score).toBe(0);
+  });
+
+  it("adds points for an unknown vendor assessed by the AI", () => {
+    const scored = scoreScript(
+      analysis({ verdictSource: "ai", riskLevel: "MEDIUM" }),
+      scope
+    );
+
+    expect(scored.riskScore?.factors.map((f) => f.id)).toEqual([
+      "assessment",
+      "unknown_vendor",
+    ]);
+    expect(scored.riskScore?.score).toBe(22);
+    expect(scored.recommendation).toBe("ALLOW");
+  });
+
+  it("blocks scripts that touched canary fields", () => {
+    const scored = scoreScript(analysis({ fieldAccess: [skimming] }), scope);
+
+    expect(scored.riskLevel).toBe("CRITICAL");
+    expect(scored.recommendation).toBe("BLOCK");
+  });
+
+  it("blocks SRI mismatches", () => {
+    const scored = scoreScript(
+      analysis({
+        sri: { status: "mismatch", isCdn: true, message: "Hash differs" },
+      }),
+      scope
+    );
+
+    expect(scored.recommendation).toBe("BLOCK");
+  });
+
+  it("keeps an admin override when there is no hard evidence", () => {
+    const scored = scoreScript(
+      analysis({
+        verdictSource: "override",
+        riskLevel: "LOW",
+        recommendation: "ALLOW",
+        staticAnalysis: {
+          size: 100,
+          truncated: false,
+          findings: [miner],
+          endpoints: [],
+        },
+      }),
+      scope
+    );
+
+    expect(scored.riskLevel).toBe("LOW");
+    expect(scored.recommendation).toBe("ALLOW");
+  });
+
+  it("blocks overridden scripts caught with canary values", () => {
+    const scored = scoreScript(
+      analysis({
+        verdictSource: "override",
+        recommendation: "ALLOW",
+        fieldAccess: [skimming],
+      }),
+      scope
+    );
+
+    expect(scored.recommendation).toBe("BLOCK");
+  });
+
+  describe("CRITICAL static findings", () => {
+    const withMiner = (overrides: Partial<ScriptAnalysis>) =>
+      analysis({
+        staticAnalysis: {
+          size: 100,
+          truncated: false,
+          findings: [miner],
+          endpoints: [],
+        },
+        ...overrides,
+      });
+
+    it("block scripts no signature vouches for", () => {
+      const scored = scoreScript(
+        withMiner({ verdictSource: "ai", signature: undefined }),
+        scope
+      );
+
+      expect(scored.recommendation).toBe("BLOCK");
+    });
+
+    it("don't block a matched vendor on their own", () => {
+      const scored = scoreScript(
+        withMiner({ signature: signature("analytics") }),
+        scope
+      );
+
+      expect(scored.recommendation).not.toBe("BLOCK");
+    });
+
+    it("block scripts on public CDNs despite a CDN signature", () => {
+      const scored = scoreScript(
+        withMiner({
+          scriptUrl: "https://cdn.jsdelivr.net/npm/miner/index.js",
+          signature: signature("cdn"),
+        }),
+        scope
+      );
+
+      expect(scored.recommendation).toBe("BLOCK");
+    });
+  });
+
+  it("ignores destinations on the page's own site", () => {
+    const scored = scoreScript(
+      analysis({ destinations: ["api.example.com", "tracker.net"] }),
+      scope
+    );
+
+    const factor = scored.riskScore?.factors.find(
+      (f) => f.id === "destinations"
+    );
+    expect(factor?.detail).toBe("tracker.net");
+  });
+});
@@ -0,0 +1,322 @@
+import type { RiskScore, ScoreFactor, ScriptAnalysis } from "../types";
+import {
+  isFirstParty,
+  isSameSite,
+  registrableDomain,
+  type FirstPartyScope,
+} from "./first-party";
+
+// Score thresholds for each level (inclusive lower bounds)
+const LEVEL_THRESHOLDS: [number, ScriptAnalysis["riskLevel"]][] = [
+  [75, "CRITICAL"],
+  [50, "HIGH"],
+  [25, "MEDIUM"],
+  [0, "LOW"],
+];
+
+// Points for the verdict from the signature database or the AI
+const ASSESSMENT_POINTS: Record<ScriptAnalysis["riskLevel"], number> = {
+  LOW: 0,
+  MEDIUM: 12,
+  HIGH: 25,
+  CRITICAL: 40,
+};
+// No vendor signature: we only have the AI's word (or nothing)
+const UNKNOWN_VENDOR_POINTS = 10;
+// The AI was skipped or failed, so nobody assessed the script
+const UNASSESSED_POINTS = 15;
+
+const SEVERITY_POINTS = { LOW: 3, MEDIUM: 8, HIGH: 20, CRITICAL: 50 };
+const MAX_SOURCE_POINTS = 60;
+
+const SENSITIVE_DATA = [
+  "payment",
+  "card",
+  "credit",
+  "password",
+  "credential",
+  "keystroke",
+  "form",
+  "email",
+  "phone",
+  "address",
+  "location",
+  "biometric",
+  "health",
+];
+const SENSITIVE_DATA_POINTS = 5;
+const MAX_SENSITIVE_DATA_POINTS = 15;
+
+const STORAGE_POINTS = 4;
+const DESTINATION_POINTS = 4;
+const MAX_DESTINATION_POINTS = 16;
+// Reading cookies and talking to another site is the pattern we care
+// about most; enough on its own to lift a LOW script to MEDIUM
+const COOKIE_EXFILTRATION_POINTS = 20;
+
+// Touching seeded canary values is what skimmers do; CRITICAL on its own
+const FIELD_ACCESS_POINTS = 75;
+
+// Share of the fingerprinting score (0-100) that counts towards risk
+const FINGERPRINT_WEIGHT = 0.3;
+
+const SRI_MISSING_POINTS = 8;
+const SRI_MISMATCH_POINTS = 40;
+
+// TLDs that show up far more often in abuse feeds than in vendor CDNs
+const SUSPICIOUS_TLDS = new Set([
+  "buzz",
+  "cam",
+  "cf",
+  "click",
+  "ga",
+  "gq",
+  "icu",
+  "link",
+  "ml",
+  "rest",
+  "sbs",
+  "tk",
+  "top",
+  "work",
+  "xyz",
+]);
+const MAX_DOMAIN_POINTS = 15;
+
+// Helper: Lexical stand-ins for domain age, which we can't look up: bare
+// IPs, throwaway TLDs, punycode and machine-generated names
+function domainSignals(host: string): string[] {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":")) {
+    return ["served from a bare IP address"];
+  }
+
+  const signals: string[] = [];
+  const site = registrableDomain(host);
+  const [name, ...rest] = site.split(".");
+  const tld = rest[rest.length - 1] || "";
+
+  if (SUSPICIOUS_TLDS.has(tld)) signals.push(`uncommon .${tld} domain`);
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    signals.push("internationalized (punycode) hostname");
+  }
+  if (
+    name.length >= 12 &&
+    ((name.match(/\d/g) || []).length >= 3 || !/[aeiouy]/.test(name))
+  ) {
+    signals.push("random-looking domain name");
+  }
+
+  return signals;
+}
+
+function levelFor(score: number): ScriptAnalysis["riskLevel"] {
+  return LEVEL_THRESHOLDS.find(([min]) => score >= min)?.[1] || "LOW";
+}
+
+// Deterministic 0-100 score from everything we know about a script. The
+// signature or AI verdict is one weighted input; the level and
+// recommendation follow from the total, except for admin overrides.
+export function scoreScript(
+  analysis: ScriptAnalysis,
+  scope: FirstPartyScope
+): ScriptAnalysis {
+  const factors: ScoreFactor[] = [];
+  const add = (factor: ScoreFactor) => {
+    if (factor.points > 0) factors.push(factor);
+  };
+
+  // Verdict from the signature database or the AI
+  const source = analysis.verdictSource;
+  if (source === "fallback") {
+    add({
+      id: "unassessed",
+      label: "Not assessed by AI",
+      points: UNASSESSED_POINTS,
+    });
+  } else {
+    factors.push({
+      id: "assessment",
+      label:
+        source === "signature"
+          ? `Known vendor rated ${analysis.riskLevel}`
+          : source === "ai"
+            ? `AI assessment: ${analysis.riskLevel}`
+            : `Assessment: ${analysis.riskLevel}`,
+      points: ASSESSMENT_POINTS[analysis.riskLevel],
+    });
+  }
+  if (source === "ai" || source === "fallback") {
+    add({
+      id: "unknown_vendor",
+      label: "Vendor not in the signature database",
+      points: UNKNOWN_VENDOR_POINTS,
+    });
+  }
+
+  // Data categories
+  const sensitive = analysis.dataCollected.filter((item) =>
+    SENSITIVE_DATA.some((keyword) => item.toLowerCase().includes(keyword))
+  );
+  add({
+    id: "sensitive_data",
+    label: "Collects sensitive data",
+    points: Math.min(
+      sensitive.length * SENSITIVE_DATA_POINTS,
+      MAX_SENSITIVE_DATA_POINTS
+    ),
+    detail: sensitive.join(", "),
+  });
+
+  // Cookie and storage access observed at runtime
+  const behavior = analysis.behavior;
+  if (behavior) {
+    add({
+      id: "cookie_reads",
+      label: "Reads cookies",
+      points: behavior.cookieReads > 0 ? STORAGE_POINTS : 0,
+      detail: `${behavior.cookieReads} observed`,
+    });
+    add({
+      id: "cookie_writes",
+      label: "Writes cookies",
+      points: behavior.cookieWrites > 0 ? STORAGE_POINTS : 0,
+      detail: `${behavior.cookieWrites} observed`,
+    });
+    add({
+      id: "storage_writes",
+      label: "Writes localStorage",
+      points: behavior.localStorageWrites > 0 ? STORAGE_POINTS : 0,
+      detail: `${behavior.localStorageWrites} observed`,
+    });
+  }
+
+  // Destinations on other sites than the script's and ours
+  const foreign = analysis.destinations.filter(
+    (host) =>
+      !isSameSite(`https://${host}/`, analysis.scriptUrl) &&
+      !isFirstParty(`https://${host}/`, scope)
+  );
+  add({
+    id: "destinations",
+    label: `Sends requests to ${foreign.length} other site${
+      foreign.length === 1 ? "" : "s"
+    }`,
+    points: Math.min(
+      foreign.length * DESTINATION_POINTS,
+      MAX_DESTINATION_POINTS
+    ),
+    detail: foreign.join(", "),
+  });
+  if (
+    behavior &&
+    (behavior.cookieReads > 0 || behavior.cookieWrites > 0) &&
+    foreign.length > 0
+  ) {
+    add({
+      id: "cookie_exfiltration",
+      label: "Cookie access combined with requests to other sites",
+      points: COOKIE_EXFILTRATION_POINTS,
+    });
+  }
+
+  // Form fields seeded with canaries: listeners, value reads, leaks
+  const fieldAccess = analysis.fieldAccess || [];
+  add({
+    id: "field_access",
+    label: "Accessed form fields seeded with canary values (CRITICAL)",
+    points: fieldAccess.length > 0 ? FIELD_ACCESS_POINTS : 0,
+    detail: fieldAccess.map((finding) => finding.evidence).join(", "),
+  });
+
+  // Fingerprinting techniques observed at runtime
+  const fingerprinting = analysis.fingerprinting;
+  add({
+    id: "fingerprinting",
+    label: `Fingerprints the browser (score ${fingerprinting?.score || 0})`,
+    points: Math.round((fingerprinting?.score || 0) * FINGERPRINT_WEIGHT),
+    detail: fingerprinting?.techniques.map((t) => t.technique).join(", "),
+  });
+
+  // Subresource Integrity
+  if (analysis.sri?.status === "mismatch") {
+    add({
+      id: "sri_mismatch",
+      label: "Served file does not match its integrity hash",
+      points: SRI_MISMATCH_POINTS,
+    });
+  } else if (analysis.sri?.status === "missing" && analysis.sri.isCdn) {
+    add({
+      id: "sri_missing",
+      label: "No Subresource Integrity on a public CDN",
+      points: SRI_MISSING_POINTS,
+    });
+  }
+
+  // Static source findings, most severe first, capped as a group
+  let sourceBudget = MAX_SOURCE_POINTS;
+  const findings = [...(analysis.staticAnalysis?.findings || [])].sort(
+    (a, b) => SEVERITY_POINTS[b.severity] - SEVERITY_POINTS[a.severity]
+  );
+  for (const finding of findings) {
+    const points = Math.min(SEVERITY_POINTS[finding.severity], sourceBudget);
+    sourceBudget -= points;
+    add({
+      id: `source_${finding.type}`,
+      label: `${finding.description} (${finding.severity})`,
+      points,
+      detail: finding.evidence,
+    });
+  }
+
+  // Domain heuristics
+  let signals: string[] = [];
+  try {
+    signals = domainSignals(new URL(analysis.scriptUrl).hostname.toLowerCase());
+  } catch {
+    // Unparseable URLs have no domain to judge
+  }
+  add({
+    id: "domain",
+    label: "Suspicious domain",
+    points: Math.min(signals.length * 6, MAX_DOMAIN_POINTS),
+    detail: signals.join(", "),
+  });
+
+  const score = Math.min(
+    100,
+    factors.reduce((total, factor) => total + factor.points, 0)
+  );
+  const riskScore: RiskScore = { score, factors };
+
+  // Canary field access and a failed SRI check are hard evidence: they
+  // always block, even against an admin override
+  const hardEvidence =
+    fieldAccess.length > 0 || analysis.sri?.status === "mismatch";
+
+  // Otherwise admins have the last word on level and recommendation
+  if (source === "override" && !hardEvidence) {
+    return { ...analysis, riskScore };
+  }
+
+  // Static findings are regex heuristics: they add points, and only force
+  // a block when no vendor signature vouches for the script. Anyone can
+  // publish to a public CDN, so a CDN signature vouches for nothing.
+  const riskLevel = levelFor(score);
+  const vouched =
+    analysis.signature !== undefined && analysis.signature.category !== "cdn";
+  const mustBlock =
+    hardEvidence ||
+    (!vouched && findings.some((finding) => finding.severity === "CRITICAL"));
+
+  return {
+    ...analysis,
+    riskLevel,
+    recommendation:
+      riskLevel === "CRITICAL" || mustBlock
+        ? "BLOCK"
+        : riskLevel === "LOW"
+          ? "ALLOW"
+          : "MONITOR",
+    riskScore,
+  };
+}
@@ -0,0 +1,412 @@
+import type {
+  ServiceSignature,
+  SignatureCategory,
+  SignatureSet,
+} from "../types";
+
+// KV key holding the team's custom signatures
+const CUSTOM_SIGNATURES_KEY = "signatures:custom";
+// How long an isolate reuses the signature set it read from KV
+const SIGNATURE_REFRESH_MS = 60_000;
+
+export const SIGNATURE_CATEGORIES: SignatureCategory[] = [
+  "payments",
+  "analytics",
+  "advertising",
+  "social",
+  "tag_manager",
+  "cdn",
+  "support",
+  "other",
+];
+
+// Signatures shipped with the worker. Custom signatures with the same id
+// replace these.
+export const BUILTIN_SIGNATURES: SignatureSet = {
+  version: "builtin-2",
+  updatedAt: Date.UTC(2025, 0, 1),
+  signatures: [
+    // Payment Gateways
+    {
+      id: "razorpay",
+      domain: "razorpay.com",
+      scriptName: "Razorpay Payment Gateway",
+      vendor: "Razorpay",
+      category: "payments",
+      purpose: "Secure payment processing for Indian market",
+      dataCollected: ["payment details", "transaction data", "contact info"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      reasoning: "Legitimate payment gateway used by thousands of businesses",
+      privacyPolicy: "https://razorpay.com/privacy/",
+    },
+    {
+      id: "stripe",
+      domain: "stripe.com",
+      scriptName: "Stripe Payment Gateway",
+      vendor: "Stripe",
+      category: "payments",
+      purpose: "Payment processing",
+      dataCollected: ["payment details", "transaction data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://stripe.com/privacy",
+    },
+    {
+      id: "paypal",
+      domain: "paypal.com",
+      scriptName: "PayPal",
+      vendor: "PayPal",
+      category: "payments",
+      purpose: "Payment processing",
+      dataCollected: ["payment details", "transaction data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://www.paypal.com/webapps/mpp/ua/privacy-full",
+    },
+
+    // Analytics
+    {
+      id: "google-analytics",
+      domain: "google-analytics.com",
+      scriptName: "Google Analytics",
+      vendor: "Google",
+      category: "analytics",
+      purpose: "Website analytics and tracking",
+      dataCollected: ["page views", "user behavior"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+    {
+      id: "google-tag-manager",
+      domain: "googletagmanager.com",
+      scriptName: "Google Tag Manager",
+      vendor: "Google",
+      category: "tag_manager",
+      purpose: "Tag management system",
+      dataCollected: ["page views", "events", "user interactions"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+    {
+      id: "google-gtag",
+      domain: "googletagmanager.com",
+      paths: ["/gtag/js*"],
+      scriptName: "Google tag (gtag.js)",
+      vendor: "Google",
+      category: "analytics",
+      purpose: "Analytics and ads measurement",
+      dataCollected: ["page views", "events"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+
+    // Social Media
+    {
+      id: "facebook-pixel",
+      domain: "connect.facebook.net",
+      paths: ["/*/fbevents.js", "/signals/*"],
+      scriptName: "Facebook Pixel",
+      vendor: "Meta",
+      category: "advertising",
+      purpose: "Advertising and conversion tracking",
+      dataCollected: ["page views", "events", "user behavior"],
+      riskLevel: "MEDIUM",
+      recommendation: "MONITOR",
+      reasoning: "Tracks user behavior for advertising purposes",
+      privacyPolicy: "https://www.facebook.com/privacy/policy/",
+    },
+    {
+      id: "facebook-sdk",
+      domain: "connect.facebook.net",
+      scriptName: "Facebook SDK",
+      vendor: "Meta",
+      category: "social",
+      purpose: "Social login and sharing",
+      dataCollected: ["profile data", "social interactions"],
+      riskLevel: "MEDIUM",
+      recommendation: "MONITOR",
+      privacyPolicy: "https://www.facebook.com/privacy/policy/",
+    },
+    {
+      id: "facebook",
+      domain: "facebook.net",
+      scriptName: "Facebook",
+      vendor: "Meta",
+      category: "social",
+      purpose: "Social features and advertising",
+      dataCollected: ["page views", "events", "user behavior"],
+      riskLevel: "MEDIUM",
+      recommendation: "MONITOR",
+      privacyPolicy: "https://www.facebook.com/privacy/policy/",
+    },
+
+    // Ads
+    {
+      id: "doubleclick",
+      domain: "doubleclick.net",
+      scriptName: "Google DoubleClick",
+      vendor: "Google",
+      category: "advertising",
+      purpose: "Ad serving and tracking",
+      dataCollected: ["browsing behavior", "ad interactions"],
+      riskLevel: "MEDIUM",
+      recommendation: "MONITOR",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+    {
+      id: "google-adsense",
+      domain: "googlesyndication.com",
+      scriptName: "Google AdSense",
+      vendor: "Google",
+      category: "advertising",
+      purpose: "Display advertisements",
+      dataCollected: ["browsing context", "ad performance"],
+      riskLevel: "MEDIUM",
+      recommendation: "MONITOR",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+
+    // CDNs
+    {
+      id: "google-hosted-libraries",
+      domain: "ajax.googleapis.com",
+      scriptName: "Google CDN",
+      vendor: "Google",
+      category: "cdn",
+      purpose: "Content delivery (libraries)",
+      dataCollected: ["basic request data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://policies.google.com/privacy",
+    },
+    {
+      id: "jsdelivr",
+      domain: "cdn.jsdelivr.net",
+      scriptName: "jsDelivr CDN",
+      vendor: "jsDelivr",
+      category: "cdn",
+      purpose: "Content delivery network",
+      dataCollected: ["basic request data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://www.jsdelivr.com/terms/privacy-policy-jsdelivr-net",
+    },
+    {
+      id: "cdnjs",
+      domain: "cdnjs.cloudflare.com",
+      scriptName: "Cloudflare CDN",
+      vendor: "Cloudflare",
+      category: "cdn",
+      purpose: "Content delivery network",
+      dataCollected: ["basic request data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+      privacyPolicy: "https://www.cloudflare.com/privacypolicy/",
+    },
+    {
+      id: "unpkg",
+      domain: "unpkg.com",
+      scriptName: "UNPKG CDN",
+      vendor: "UNPKG",
+      category: "cdn",
+      purpose: "NPM package CDN",
+      dataCollected: ["basic request data"],
+      riskLevel: "LOW",
+      recommendation: "ALLOW",
+    },
+  ],
+};
+
+let loaded: { set: SignatureSet; at: number } | undefined;
+
+// Helper: Does the host equal the domain or sit under it? Label boundaries
+// matter: evilstripe.com is not stripe.com.
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// Helper: Glob match of a path against a pattern where * matches anything
+export function pathMatches(path: string, pattern: string): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`
+  );
+  return regex.test(path);
+}
+
+// Find the signature for a script URL. The longest matching domain wins,
+// then the most specific path pattern, then a signature without paths.
+export function matchSignature(
+  url: string,
+  set: SignatureSet
+): ServiceSignature | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+
+  let best: { signature: ServiceSignature; score: [number, number] } | null =
+    null;
+
+  for (const signature of set.signatures) {
+    const domain = signature.domain.toLowerCase();
+    if (!hostMatches(host, domain)) continue;
+
+    let pathScore = 0;
+    if (signature.paths && signature.paths.length > 0) {
+      const matched = signature.paths.filter((pattern) =>
+        pathMatches(parsed.pathname, pattern)
+      );
+      if (matched.length === 0) continue;
+      // Literal characters in the best pattern; +1 so any path beats none
+      pathScore =
+        1 + Math.max(...matched.map((p) => p.replace(/\*/g, "").length));
+    }
+
+    const score: [number, number] = [domain.length, pathScore];
+    if (
+      !best ||
+      score[0] > best.score[0] ||
+      (score[0] === best.score[0] && score[1] > best.score[1])
+    ) {
+      best = { signature, score };
+    }
+  }
+
+  return best?.signature || null;
+}
+
+// Helper: Problems with a signature submitted at runtime
+export function validateSignature(signature: ServiceSignature): string | null {
+  if (!signature || typeof signature !== "object") {
+    return "Signature must be an object";
+  }
+  if (!signature.id || !/^[a-z0-9._-]+$/i.test(signature.id)) {
+    return "id must be letters, digits, dots, dashes or underscores";
+  }
+  if (!signature.domain || !/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(signature.domain)) {
+    return `${signature.id}: domain must be a hostname like example.com`;
+  }
+  if (
+    signature.paths !== undefined &&
+    (!Array.isArray(signature.paths) ||
+      signature.paths.some((p) => typeof p !== "string" || !p.startsWith("/")))
+  ) {
+    return `${signature.id}: paths must be patterns starting with /`;
+  }
+  if (!signature.scriptName || !signature.vendor) {
+    return `${signature.id}: scriptName and vendor are required`;
+  }
+  if (typeof signature.purpose !== "string" || !signature.purpose.trim()) {
+    return `${signature.id}: purpose is required`;
+  }
+  if (
+    !Array.isArray(signature.dataCollected) ||
+    signature.dataCollected.some((item) => typeof item !== "string")
+  ) {
+    return `${signature.id}: dataCollected must be an array of strings`;
+  }
+  if (!SIGNATURE_CATEGORIES.includes(signature.category)) {
+    return `${signature.id}: category must be one of ${SIGNATURE_CATEGORIES.join(", ")}`;
+  }
+  if (!["LOW", "MEDIUM", "HIGH", "CRITICAL"].includes(signature.riskLevel)) {
+    return `${signature.id}: riskLevel must be LOW, MEDIUM, HIGH or CRITICAL`;
+  }
+  if (!["ALLOW", "MONITOR", "BLOCK"].includes(signature.recommendation)) {
+    return `${signature.id}: recommendation must be ALLOW, MONITOR or BLOCK`;
+  }
+  return null;
+}
+
+// Helper: Builtin signatures with custom ones layered on top by id
+function mergeSignatures(custom: SignatureSet | null): SignatureSet {
+  if (!custom) return BUILTIN_SIGNATURES;
+
+  const byId = new Map(
+    BUILTIN_SIGNATURES.signatures.map((signature) => [signature.id, signature])
+  );
+  for (const signature of custom.signatures) {
+    byId.set(signature.id, signature);
+  }
+
+  return {
+    version: `${BUILTIN_SIGNATURES.version}+custom-${custom.version}`,
+    updatedAt: Math.max(BUILTIN_SIGNATURES.updatedAt, custom.updatedAt),
+    signatures: Array.from(byId.values()),
+  };
+}
+
+export async function getCustomSignatures(
+  kv: KVNamespace
+): Promise<SignatureSet | null> {
+  return kv.get<SignatureSet>(CUSTOM_SIGNATURES_KEY, "json");
+}
+
+// The signature set used for scans, refreshed from KV once a minute
+export async function loadSignatures(kv: KVNamespace): Promise<SignatureSet> {
+  if (loaded && Date.now() - loaded.at < SIGNATURE_REFRESH_MS) {
+    return loaded.set;
+  }
+
+  try {
+    const set = mergeSignatures(await getCustomSignatures(kv));
+    loaded = { set, at: Date.now() };
+    return set;
+  } catch (error) {
+    console.error("[Signatures] Failed to load custom signatures", error);
+    return loaded?.set || BUILTIN_SIGNATURES;
+  }
+}
+
+// Save a new version of the custom signatures. `replace` drops everything
+// not in `signatures`; otherwise they are added to or update the set.
+export async function saveCustomSignatures(
+  kv: KVNamespace,
+  signatures: ServiceSignature[],
+  replace: boolean
+): Promise<SignatureSet> {
+  const current = await getCustomSignatures(kv);
+  const byId = new Map(
+    replace ? [] : (current?.signatures || []).map((s) => [s.id, s])
+  );
+  for (const signature of signatures) {
+    byId.set(signature.id, signature);
+  }
+
+  const set: SignatureSet = {
+    version: String(Number(current?.version || 0) + 1),
+    updatedAt: Date.now(),
+    signatures: Array.from(byId.values()),
+  };
+  await kv.put(CUSTOM_SIGNATURES_KEY, JSON.stringify(set));
+  loaded = undefined;
+  return set;
+}
+
+export async function deleteCustomSignature(
+  kv: KVNamespace,
+  id: string
+): Promise<SignatureSet | null> {
+  const current = await getCustomSignatures(kv);
+  if (!current || !current.signatures.some((s) => s.id === id)) {
+    return null;
+  }
+
+  const set: SignatureSet = {
+    version: String(Number(current.version) + 1),
+    updatedAt: Date.now(),
+    signatures: current.signatures.filter((s) => s.id !== id),
+  };
+  await kv.put(CUSTOM_SIGNATURES_KEY, JSON.stringify(set));
+  loaded = undefined;
+  return set;
+}
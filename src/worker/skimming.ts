@@ -0,0 +1,369 @@
+import type {
+  FieldAccessFinding,
+  RuntimeEvent,
+  ScriptBehavior,
+  SensitiveField,
+} from "../types";
+import { isFirstParty, type FirstPartyScope } from "./first-party";
+import { emptyBehavior, stackFrames } from "./monitor";
+import type { CapturedRequest } from "./network";
+
+// Upper bound on field events kept in the page; frameworks read .value a lot
+const MAX_FIELD_EVENTS = 2000;
+// Fields seeded per page
+const MAX_SEEDED_FIELDS = 50;
+// Shorter canaries (CVC, expiry) would match unrelated requests by accident
+const MIN_LEAK_LENGTH = 8;
+// Public CDNs and the libraries scripts attach listeners through. When a
+// script calls $(field).on("input"), jQuery is the innermost frame.
+const LIBRARY_FRAME =
+  /^https?:\/\/(cdnjs\.cloudflare\.com|unpkg\.com|cdn\.jsdelivr\.net|code\.jquery\.com)\/|\/(jquery|react|react-dom|preact)([.-][\w.-]*)?\.js($|\?)/i;
+
+// Injected with page.evaluateOnNewDocument alongside the runtime monitor.
+// Records listeners attached to form fields and, once a field holds a
+// canary, every read of its value.
+export const FIELD_MONITOR_SCRIPT = `(() => {
+  if (window.__sentinelFieldEvents) return;
+
+  const events = [];
+  Object.defineProperty(window, "__sentinelFieldEvents", {
+    value: events,
+    enumerable: false,
+  });
+
+  const KEY_EVENTS = ["input", "change", "keydown", "keyup", "keypress", "paste", "blur"];
+  const SKIPPED_TYPES = ["hidden", "submit", "button", "reset", "image", "checkbox", "radio", "file", "range", "color"];
+
+  const isField = (el) =>
+    el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement;
+
+  // What a field holds, from its type, name, id, autocomplete and labels
+  const fieldType = (el) => {
+    if (!isField(el)) return null;
+    const type = (el.type || "").toLowerCase();
+    if (SKIPPED_TYPES.includes(type)) return null;
+    const hints = [
+      el.name,
+      el.id,
+      el.autocomplete,
+      el.getAttribute("placeholder"),
+      el.getAttribute("aria-label"),
+    ].join(" ").toLowerCase();
+    // Search boxes send what is typed to their search provider by design
+    if (
+      type === "search" ||
+      el.getAttribute("role") === "searchbox" ||
+      el.closest("[role=search]") ||
+      /search|query|(^| )q( |$)/.test(hints)
+    ) {
+      return null;
+    }
+    if (/cc-number|card.?num|cardno|ccnum|credit.?card/.test(hints)) return "card_number";
+    if (/cc-csc|cvc|cvv|csc|security.?code/.test(hints)) return "card_cvc";
+    if (/cc-exp|expir|exp.?date|mm.?yy/.test(hints)) return "card_expiry";
+    if (type === "password") return "password";
+    if (type === "email" || /e-?mail/.test(hints)) return "email";
+    return "text";
+  };
+  Object.defineProperty(window, "__sentinelFieldType", {
+    value: fieldType,
+    enumerable: false,
+  });
+
+  const describe = (el) => {
+    let label = el.tagName.toLowerCase();
+    if (el.id) label += "#" + el.id;
+    else if (el.name) label += "[name=" + el.name + "]";
+    return label.slice(0, 120);
+  };
+
+  const record = (type, el, details) => {
+    if (events.length >= ${MAX_FIELD_EVENTS}) return;
+    const field = el.__sentinelCanary || fieldType(el);
+    if (!field) return;
+    // Listeners on plain text inputs are how autocomplete and form libraries
+    // work; only card, password and email fields count
+    if (type === "listener" && field === "text") return;
+    events.push(
+      Object.assign(
+        { type: type, field: field, target: describe(el), timestamp: Date.now(), stack: new Error().stack },
+        details || {}
+      )
+    );
+  };
+
+  // addEventListener on a field
+  const addEventListener = EventTarget.prototype.addEventListener;
+  EventTarget.prototype.addEventListener = function (type, listener) {
+    try {
+      if (isField(this) && KEY_EVENTS.includes(type)) {
+        record("listener", this, { event: type });
+      }
+    } catch (e) {}
+    return addEventListener.apply(this, arguments);
+  };
+
+  // Handler properties (field.oninput = ...)
+  for (const type of KEY_EVENTS) {
+    const desc = Object.getOwnPropertyDescriptor(HTMLElement.prototype, "on" + type);
+    if (!desc || !desc.configurable) continue;
+    Object.defineProperty(HTMLElement.prototype, "on" + type, {
+      configurable: true,
+      enumerable: desc.enumerable,
+      get() {
+        return desc.get.call(this);
+      },
+      set(value) {
+        try {
+          if (value && isField(this)) record("listener", this, { event: type });
+        } catch (e) {}
+        desc.set.call(this, value);
+      },
+    });
+  }
+
+  // .value reads of seeded fields
+  for (const proto of [HTMLInputElement.prototype, HTMLTextAreaElement.prototype]) {
+    const desc = Object.getOwnPropertyDescriptor(proto, "value");
+    if (!desc || !desc.configurable) continue;
+    Object.defineProperty(proto, "value", {
+      configurable: true,
+      enumerable: desc.enumerable,
+      get() {
+        if (this.__sentinelCanary) record("value_read", this);
+        return desc.get.call(this);
+      },
+      set(value) {
+        desc.set.call(this, value);
+      },
+    });
+  }
+
+  // new FormData(form) reads every field without the value getter
+  const NativeFormData = window.FormData;
+  if (NativeFormData) {
+    window.FormData = function () {
+      try {
+        const form = arguments[0];
+        for (const el of (form && form.elements) || []) {
+          if (el.__sentinelCanary) record("value_read", el, { via: "FormData" });
+        }
+      } catch (e) {}
+      return new NativeFormData(...arguments);
+    };
+    window.FormData.prototype = NativeFormData.prototype;
+  }
+})();`;
+
+// Evaluated after a page settles. Fills its fields with canary values and
+// fires the events typing would, so listeners react. Never submits.
+// Returns how many fields of each kind were seeded.
+export function seedCanariesExpression(canaries: Canaries): string {
+  return `(() => {
+  const canaries = ${JSON.stringify(canaries)};
+  const fieldType = window.__sentinelFieldType;
+  const seeded = {};
+  if (!fieldType) return seeded;
+
+  const fields = Array.from(document.querySelectorAll("input, textarea"))
+    .filter((el) => !el.disabled && !el.readOnly && fieldType(el))
+    .slice(0, ${MAX_SEEDED_FIELDS});
+
+  for (const el of fields) {
+    const field = fieldType(el);
+    el.__sentinelCanary = field;
+    el.value = canaries[field];
+    for (const type of ["keydown", "keypress", "input", "keyup", "change", "blur"]) {
+      try {
+        el.dispatchEvent(
+          type.startsWith("key")
+            ? new KeyboardEvent(type, { bubbles: true, key: "0" })
+            : new Event(type, { bubbles: true })
+        );
+      } catch (e) {}
+    }
+    seeded[field] = (seeded[field] || 0) + 1;
+  }
+  return seeded;
+})()`;
+}
+
+// Drains the field events recorded so far
+export const COLLECT_FIELD_EVENTS_EXPRESSION =
+  "(window.__sentinelFieldEvents || []).splice(0)";
+
+// Raw record produced by FIELD_MONITOR_SCRIPT
+export interface FieldEvent {
+  type: "listener" | "value_read";
+  field: SensitiveField;
+  target: string;
+  event?: string;
+  via?: string;
+  stack?: string;
+  timestamp: number;
+  // Set by the scan when the event is collected
+  page?: string;
+}
+
+// Values typed into each kind of field
+export type Canaries = Record<SensitiveField, string>;
+
+const FIELD_LABELS: Record<SensitiveField, string> = {
+  card_number: "card number",
+  card_cvc: "card security code",
+  card_expiry: "card expiry",
+  password: "password",
+  email: "email",
+  text: "text input",
+};
+
+// Helper: Append the Luhn check digit so card validation passes
+function withLuhnDigit(digits: string): string {
+  let sum = 0;
+  for (const [index, char] of [...digits].reverse().entries()) {
+    let n = Number(char);
+    if (index % 2 === 0) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+  return `${digits}${(10 - (sum % 10)) % 10}`;
+}
+
+// Fresh values per scan, so a match can only come from this visit
+export function createCanaries(): Canaries {
+  const randomDigits = (count: number) =>
+    Array.from(crypto.getRandomValues(new Uint8Array(count)), (b) => b % 10)
+      .join("");
+  const token = crypto.randomUUID().replace(/-/g, "").slice(0, 10);
+
+  return {
+    card_number: withLuhnDigit(`4${randomDigits(14)}`),
+    card_cvc: randomDigits(3),
+    card_expiry: `12/${(new Date().getFullYear() + 3) % 100}`,
+    password: `Cnry-${token}`,
+    email: `sentinel.${token}@example.com`,
+    text: `sentinel${token}`,
+  };
+}
+
+// Helper: Forms a canary may take on the wire
+function encodings(value: string): [string, string][] {
+  return [
+    [value, "plain"],
+    [encodeURIComponent(value), "URL-encoded"],
+    [btoa(value), "base64-encoded"],
+  ];
+}
+
+// Helper: Where in a request a canary was sent, if it was
+function findCanary(
+  request: CapturedRequest,
+  value: string
+): string | null {
+  for (const [encoded, encoding] of encodings(value)) {
+    if (request.url.includes(encoded)) return `in the URL, ${encoding}`;
+    if (request.body?.includes(encoded)) return `in the body, ${encoding}`;
+  }
+  return null;
+}
+
+// Helper: The script behind a field event. Library and CDN frames are
+// skipped and the outermost third-party frame wins, so a skimmer that goes
+// through jQuery or the page's own helpers is still the one blamed.
+function attributeFieldEvent(
+  stack: string | undefined,
+  scope: FirstPartyScope
+): string | undefined {
+  const frames = stackFrames(stack);
+  const callers = frames.filter((url) => !LIBRARY_FRAME.test(url));
+  const thirdParty = callers.filter((url) => !isFirstParty(url, scope));
+  return thirdParty[thirdParty.length - 1] || callers[0] || frames[0];
+}
+
+// Turn field events and canaries seen in outbound requests into CRITICAL
+// findings and attach them to each responsible script's behavior.
+// Requests the interceptor couldn't attribute fall back to the runtime
+// monitor's record of who called fetch/XHR/sendBeacon for that URL.
+export function attachFieldAccess(
+  behaviors: Map<string, ScriptBehavior>,
+  fieldEvents: FieldEvent[],
+  requests: CapturedRequest[],
+  runtimeEvents: RuntimeEvent[],
+  canaries: Canaries,
+  scope: FirstPartyScope
+): void {
+  const byScript = new Map<string, Map<string, FieldAccessFinding>>();
+  const add = (scriptUrl: string | undefined, finding: FieldAccessFinding) => {
+    if (!scriptUrl) return;
+    const findings = byScript.get(scriptUrl) || new Map();
+    const key = `${finding.type}|${finding.field}|${finding.evidence}`;
+    if (!findings.has(key)) findings.set(key, finding);
+    byScript.set(scriptUrl, findings);
+  };
+
+  for (const event of fieldEvents) {
+    const label = FIELD_LABELS[event.field] || event.field;
+    add(
+      attributeFieldEvent(event.stack, scope),
+      event.type === "listener"
+        ? {
+            type: "field_listener",
+            severity: "CRITICAL",
+            field: event.field,
+            description: `Listens for "${event.event}" events on a ${label} field`,
+            evidence: `addEventListener("${event.event}") on ${event.target}`,
+            page: event.page,
+          }
+        : {
+            type: "field_read",
+            severity: "CRITICAL",
+            field: event.field,
+            description: `Read the value of a ${label} field`,
+            evidence:
+              event.via === "FormData"
+                ? `new FormData(form) including ${event.target}`
+                : `${event.target}.value`,
+            page: event.page,
+          }
+    );
+  }
+
+  for (const request of requests) {
+    for (const [field, value] of Object.entries(canaries) as [
+      SensitiveField,
+      string,
+    ][]) {
+      if (value.length < MIN_LEAK_LENGTH) continue;
+      const where = findCanary(request, value);
+      if (!where) continue;
+
+      let host = request.url;
+      try {
+        host = new URL(request.url).hostname;
+      } catch {
+        // Keep the raw URL
+      }
+      add(
+        request.initiator ||
+          runtimeEvents.find((e) => e.url === request.url && e.scriptUrl)
+            ?.scriptUrl,
+        {
+          type: "canary_exfiltration",
+          severity: "CRITICAL",
+          field,
+          description: `Sent the ${FIELD_LABELS[field]} typed into the page to ${host}`,
+          evidence: `${request.method} ${request.kind} to ${host} (canary ${where})`,
+          page: request.page,
+        }
+      );
+    }
+  }
+
+  for (const [scriptUrl, findings] of byScript) {
+    const behavior = behaviors.get(scriptUrl) || emptyBehavior();
+    behavior.fieldAccess = Array.from(findings.values());
+    behaviors.set(scriptUrl, behavior);
+  }
+}
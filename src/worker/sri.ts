@@ -0,0 +1,136 @@
+import type { ScriptInfo, SriFinding } from "../types";
+import type { ScriptSource } from "./static-analysis";
+
+// Public CDNs that serve immutable, versioned files and can therefore be
+// pinned with an integrity hash
+const PUBLIC_CDNS = [
+  "ajax.googleapis.com",
+  "cdn.jsdelivr.net",
+  "cdnjs.cloudflare.com",
+  "unpkg.com",
+  "code.jquery.com",
+  "stackpath.bootstrapcdn.com",
+  "maxcdn.bootstrapcdn.com",
+];
+
+const ALGORITHMS: Record<string, string> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+export function isPublicCdn(url: string): boolean {
+  try {
+    const host = new URL(url).hostname;
+    return PUBLIC_CDNS.some((cdn) => host === cdn || host.endsWith("." + cdn));
+  } catch {
+    return false;
+  }
+}
+
+// Helper: "<alg>-<base64 digest>" as used in integrity attributes
+async function integrityHash(
+  bytes: Uint8Array,
+  algorithm: string
+): Promise<string> {
+  const digest = await crypto.subtle.digest(ALGORITHMS[algorithm], bytes);
+  let binary = "";
+  for (const byte of new Uint8Array(digest)) {
+    binary += String.fromCharCode(byte);
+  }
+  return `${algorithm}-${btoa(binary)}`;
+}
+
+// Helper: Does any hash in the integrity attribute match the fetched body?
+async function matchesIntegrity(
+  bytes: Uint8Array,
+  integrity: string
+): Promise<boolean | undefined> {
+  const hashes = integrity
+    .split(/\s+/)
+    .map((token) => token.split("?")[0])
+    .filter((token) => ALGORITHMS[token.split("-")[0]]);
+
+  if (hashes.length === 0) return undefined;
+
+  for (const expected of hashes) {
+    const algorithm = expected.split("-")[0];
+    if ((await integrityHash(bytes, algorithm)) === expected) return true;
+  }
+  return false;
+}
+
+// Check whether a script is loaded with SRI and, where it should be, offer
+// the integrity value computed from the fetched body
+export async function auditSri(
+  script: ScriptInfo,
+  source: ScriptSource | null
+): Promise<SriFinding> {
+  const isCdn = isPublicCdn(script.url);
+  const integrity = script.element?.integrity;
+  const crossorigin = script.element?.crossorigin;
+  const computedIntegrity = source?.bytes
+    ? await integrityHash(source.bytes, "sha384")
+    : undefined;
+
+  if (integrity) {
+    const matches = source?.bytes
+      ? await matchesIntegrity(source.bytes, integrity)
+      : undefined;
+
+    if (matches === false) {
+      return {
+        status: "mismatch",
+        isCdn,
+        integrity,
+        crossorigin,
+        computedIntegrity,
+        message:
+          "The integrity attribute does not match the script currently served. The browser will refuse to run it, or the file has changed.",
+      };
+    }
+
+    return {
+      status: "present",
+      isCdn,
+      integrity,
+      crossorigin,
+      computedIntegrity,
+      message:
+        crossorigin === undefined
+          ? "Integrity is set but crossorigin is missing, so the browser can't verify cross-origin responses."
+          : "Loaded with Subresource Integrity.",
+    };
+  }
+
+  if (!isCdn) {
+    return {
+      status: "not_applicable",
+      isCdn,
+      crossorigin,
+      computedIntegrity,
+      message:
+        "Not served from a versioned public CDN; SRI would break whenever the vendor updates the file.",
+    };
+  }
+
+  if (!computedIntegrity) {
+    return {
+      status: "unknown",
+      isCdn,
+      crossorigin,
+      message:
+        "Loaded from a public CDN without integrity, but the file could not be hashed.",
+    };
+  }
+
+  return {
+    status: "missing",
+    isCdn,
+    crossorigin,
+    computedIntegrity,
+    suggestedAttributes: `integrity="${computedIntegrity}" crossorigin="anonymous"`,
+    message:
+      "Loaded from a public CDN without Subresource Integrity. A compromised CDN could serve altered code.",
+  };
+}
@@ -0,0 +1,242 @@
+import type { StaticAnalysis, StaticFinding } from "../types";
+import {
+  isFirstParty,
+  registrableDomain,
+  type FirstPartyScope,
+} from "./first-party";
+
+// Scripts larger than this are analyzed on their first MAX_SOURCE_BYTES only
+const MAX_SOURCE_BYTES = 512 * 1024;
+const FETCH_TIMEOUT_MS = 8000;
+
+export interface ScriptSource {
+  body: string;
+  size: number;
+  truncated: boolean;
+  // Raw bytes, kept only when the whole body fit under the limit so it can
+  // be hashed for SRI
+  bytes?: Uint8Array;
+}
+
+// Download a script body without ever executing it, stopping at the size limit
+export async function fetchScriptSource(
+  url: string,
+  maxBytes: number = MAX_SOURCE_BYTES
+): Promise<ScriptSource | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/javascript, */*;q=0.8" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok || !response.body) {
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let truncated = false;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (size + value.byteLength > maxBytes) {
+        chunks.push(value.subarray(0, maxBytes - size));
+        size = maxBytes;
+        truncated = true;
+        await reader.cancel();
+        break;
+      }
+
+      chunks.push(value);
+      size += value.byteLength;
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    return {
+      body: new TextDecoder().decode(bytes),
+      size,
+      truncated,
+      bytes: truncated ? undefined : bytes,
+    };
+  } catch (error) {
+    console.error("[Static Analysis] Failed to fetch", url, error);
+    return null;
+  }
+}
+
+interface SourceRule {
+  type: StaticFinding["type"];
+  severity: StaticFinding["severity"];
+  description: string;
+  pattern: RegExp;
+}
+
+// Ordered roughly by how suspicious a match is on its own. Plain eval and
+// script injection are common in legitimate loaders, so they stay LOW and
+// only tip the verdict when combined with something else.
+const SOURCE_RULES: SourceRule[] = [
+  {
+    type: "crypto_mining",
+    severity: "CRITICAL",
+    description: "Contains cryptocurrency mining signatures",
+    pattern:
+      /coinhive|cryptonight|coin-hive|stratum\+tcp|CoinImp|webminerpool|deepMiner|cryptoloot/i,
+  },
+  {
+    type: "form_scraping",
+    severity: "HIGH",
+    description: "Reads payment or credential form fields",
+    pattern:
+      /(?:cc[-_]?num|card[-_]?number|cardnumber|cvv|cvc|security[-_]?code|exp[-_]?date|type\s*=\s*["']?password)/i,
+  },
+  {
+    type: "keylogging",
+    severity: "MEDIUM",
+    description: "Listens to keystrokes",
+    pattern:
+      /addEventListener\(\s*["'](?:keydown|keyup|keypress|input)["']|\.onkey(?:down|up|press)\s*=/,
+  },
+  {
+    type: "obfuscation",
+    severity: "MEDIUM",
+    description: "Shows signs of deliberate obfuscation",
+    pattern:
+      /_0x[a-f0-9]{4,}|\\x[0-9a-f]{2}(?:\\x[0-9a-f]{2}){15,}|atob\(\s*["'][A-Za-z0-9+/=]{200,}|String\.fromCharCode\((?:\s*\d+\s*,){20,}/i,
+  },
+  {
+    type: "eval",
+    severity: "LOW",
+    description: "Executes dynamically built code (eval / new Function)",
+    pattern:
+      /\beval\s*\(|new\s+Function\s*\(|set(?:Timeout|Interval)\(\s*["'`]/,
+  },
+  {
+    type: "dynamic_injection",
+    severity: "LOW",
+    description: "Injects additional scripts into the page",
+    pattern:
+      /createElement\(\s*["']script["']\s*\)|document\.write\(\s*["'`][^"'`]*<script/i,
+  },
+];
+
+const SEVERITY_ORDER: StaticFinding["severity"][] = [
+  "LOW",
+  "MEDIUM",
+  "HIGH",
+  "CRITICAL",
+];
+
+// Helper: Pull a short snippet around a match for the report
+function excerpt(source: string, index: number, length: number): string {
+  const start = Math.max(0, index - 40);
+  const end = Math.min(source.length, index + length + 40);
+  return source.slice(start, end).replace(/\s+/g, " ").trim();
+}
+
+// Helper: Collect hard-coded absolute URLs that point away from the script's
+// site and ours. A vendor calling its own API (js.stripe.com ->
+// api.stripe.com) is not an external endpoint.
+function findEndpoints(
+  source: string,
+  scriptHost: string,
+  scope?: FirstPartyScope
+): string[] {
+  const endpoints = new Set<string>();
+  const urlPattern = /["'`](?:https?:)?\/\/([a-z0-9.-]+\.[a-z]{2,})(?::\d+)?(\/[^"'`\s]*)?["'`]/gi;
+  const scriptSite = scriptHost ? registrableDomain(scriptHost) : "";
+
+  for (const match of source.matchAll(urlPattern)) {
+    const host = match[1].toLowerCase();
+    if (scriptSite && registrableDomain(host) === scriptSite) continue;
+    if (scope && isFirstParty(`https://${host}/`, scope)) continue;
+    endpoints.add(host);
+    if (endpoints.size >= 50) break;
+  }
+
+  return Array.from(endpoints);
+}
+
+// Static text pass over a script body. Nothing here evaluates the source.
+export function analyzeSource(
+  source: ScriptSource,
+  scriptUrl: string,
+  scope?: FirstPartyScope
+): StaticAnalysis {
+  const findings: StaticFinding[] = [];
+  let scriptHost = "";
+  try {
+    scriptHost = new URL(scriptUrl).hostname;
+  } catch {
+    // Leave host empty; every endpoint is then treated as foreign
+  }
+
+  for (const rule of SOURCE_RULES) {
+    const match = rule.pattern.exec(source.body);
+    if (match) {
+      findings.push({
+        type: rule.type,
+        severity: rule.severity,
+        description: rule.description,
+        evidence: excerpt(source.body, match.index, match[0].length),
+      });
+    }
+  }
+
+  const endpoints = findEndpoints(source.body, scriptHost, scope);
+
+  // Scraping form fields is more worrying when the script also knows where
+  // to send them. Keywords alone stay MEDIUM; corroborateFindings raises it
+  // once runtime evidence backs it up.
+  const scrapes = findings.some((f) => f.type === "form_scraping");
+  if (endpoints.length > 0) {
+    findings.push({
+      type: "exfiltration_endpoint",
+      severity: scrapes ? "MEDIUM" : "LOW",
+      description: scrapes
+        ? "Reads sensitive form fields and contains hard-coded external endpoints"
+        : "Contains hard-coded external endpoints",
+      evidence: endpoints.slice(0, 10).join(", "),
+    });
+  }
+
+  return {
+    size: source.size,
+    truncated: source.truncated,
+    findings,
+    endpoints,
+  };
+}
+
+// Raise the scraping-plus-endpoint finding to CRITICAL when the script was
+// also seen touching seeded form fields at runtime
+export function corroborateFindings(
+  analysis: StaticAnalysis,
+  touchedFields: boolean
+): StaticAnalysis {
+  if (!touchedFields) return analysis;
+  return {
+    ...analysis,
+    findings: analysis.findings.map((finding) =>
+      finding.type === "exfiltration_endpoint" &&
+      analysis.findings.some((f) => f.type === "form_scraping")
+        ? { ...finding, severity: "CRITICAL" }
+        : finding
+    ),
+  };
+}
+
+export function compareSeverity(
+  a: StaticFinding["severity"],
+  b: StaticFinding["severity"]
+): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
@@ -0,0 +1,298 @@
+import type {
+  Env,
+  AnalysisResult,
+  ScriptAnalysis,
+  SiteConcern,
+  SiteDataCategory,
+  SiteDestination,
+  SiteSummary,
+} from "../types";
+import { registrableDomain } from "./first-party";
+
+const MAX_TOP_CONCERNS = 5;
+const MAX_DATA_CATEGORIES = 12;
+const MAX_DESTINATIONS = 20;
+// Scripts listed in the executive summary prompt, worst first
+const MAX_PROMPT_SCRIPTS = 25;
+
+const LEVEL_ORDER: ScriptAnalysis["riskLevel"][] = [
+  "CRITICAL",
+  "HIGH",
+  "MEDIUM",
+  "LOW",
+];
+
+// Helper: Worst first, by level and then by score
+export function compareRisk(a: ScriptAnalysis, b: ScriptAnalysis): number {
+  return (
+    LEVEL_ORDER.indexOf(a.riskLevel) - LEVEL_ORDER.indexOf(b.riskLevel) ||
+    (b.riskScore?.score || 0) - (a.riskScore?.score || 0)
+  );
+}
+
+// Helper: Hostname for a destination, or null for the AI's free-text ones
+// ("Google servers")
+function destinationHost(destination: string): string | null {
+  const value = destination.trim().toLowerCase();
+  try {
+    return new URL(value.includes("://") ? value : `https://${value}`)
+      .hostname;
+  } catch {
+    return null;
+  }
+}
+
+// Letter grade from the worst scripts on the site. Any CRITICAL script
+// fails the site; a couple of HIGH ones is nearly as bad.
+function gradeFor(
+  riskCounts: SiteSummary["riskCounts"],
+  blocked: number
+): { grade: SiteSummary["grade"]; reason: string } {
+  if (riskCounts.CRITICAL > 0) {
+    return {
+      grade: "F",
+      reason: `${riskCounts.CRITICAL} critical-risk script(s)`,
+    };
+  }
+  if (riskCounts.HIGH >= 2) {
+    return { grade: "D", reason: `${riskCounts.HIGH} high-risk scripts` };
+  }
+  if (riskCounts.HIGH === 1 || blocked > 0) {
+    return {
+      grade: "C",
+      reason:
+        riskCounts.HIGH === 1
+          ? "1 high-risk script"
+          : `${blocked} script(s) recommended for blocking`,
+    };
+  }
+  if (riskCounts.MEDIUM > 5) {
+    return {
+      grade: "C",
+      reason: `${riskCounts.MEDIUM} medium-risk scripts`,
+    };
+  }
+  if (riskCounts.MEDIUM > 0) {
+    return {
+      grade: "B",
+      reason: `${riskCounts.MEDIUM} medium-risk script(s), none high-risk`,
+    };
+  }
+  return { grade: "A", reason: "No medium-risk or worse scripts" };
+}
+
+// Helper: Why a script is a concern, from its strongest score factors
+function concernReason(analysis: ScriptAnalysis): string {
+  const factors = [...(analysis.riskScore?.factors || [])]
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 2)
+    .map((f) => (f.detail ? `${f.label} (${f.detail})` : f.label));
+
+  return factors.length > 0 ? factors.join("; ") : analysis.reasoning;
+}
+
+// Aggregate the per-script analyses into a site-level assessment. Purely
+// deterministic; the executive summary is added by summarizeSite.
+export function buildSiteSummary(result: AnalysisResult): SiteSummary {
+  const analyses = result.analyses || [];
+
+  const riskCounts = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+  const recommendationCounts = { ALLOW: 0, MONITOR: 0, BLOCK: 0 };
+  for (const analysis of analyses) {
+    riskCounts[analysis.riskLevel]++;
+    recommendationCounts[analysis.recommendation]++;
+  }
+
+  const topConcerns: SiteConcern[] = analyses
+    .filter((a) => a.riskLevel !== "LOW" || a.recommendation === "BLOCK")
+    .sort(compareRisk)
+    .slice(0, MAX_TOP_CONCERNS)
+    .map((a) => ({
+      scriptUrl: a.scriptUrl,
+      scriptName: a.scriptName,
+      riskLevel: a.riskLevel,
+      recommendation: a.recommendation,
+      score: a.riskScore?.score,
+      reason: concernReason(a),
+    }));
+
+  // Data categories, merged case-insensitively across scripts
+  const categories = new Map<string, SiteDataCategory>();
+  for (const analysis of analyses) {
+    for (const item of new Set(analysis.dataCollected)) {
+      const key = item.trim().toLowerCase();
+      if (!key) continue;
+      const category = categories.get(key) || {
+        category: item.trim(),
+        scripts: 0,
+      };
+      category.scripts++;
+      categories.set(key, category);
+    }
+  }
+
+  // Vendors we know by signature name the organization behind their domain
+  const vendors = new Map<string, string>();
+  for (const analysis of analyses) {
+    const host = destinationHost(analysis.scriptUrl);
+    if (host && analysis.signature) {
+      vendors.set(registrableDomain(host), analysis.signature.vendor);
+    }
+  }
+
+  // Destinations grouped by organization: a known vendor, otherwise the
+  // registrable domain. We have no geolocation, so no countries.
+  const destinations = new Map<
+    string,
+    { hosts: Set<string>; scripts: Set<string> }
+  >();
+  for (const analysis of analyses) {
+    for (const destination of analysis.destinations) {
+      const host = destinationHost(destination);
+      if (!host || !host.includes(".")) continue;
+
+      const site = registrableDomain(host);
+      const organization = vendors.get(site) || site;
+      const entry = destinations.get(organization) || {
+        hosts: new Set<string>(),
+        scripts: new Set<string>(),
+      };
+      entry.hosts.add(host);
+      entry.scripts.add(analysis.scriptUrl);
+      destinations.set(organization, entry);
+    }
+  }
+
+  const { grade, reason } = gradeFor(riskCounts, recommendationCounts.BLOCK);
+
+  return {
+    grade,
+    gradeReason: reason,
+    riskCounts,
+    recommendationCounts,
+    topConcerns,
+    dataCategories: Array.from(categories.values())
+      .sort((a, b) => b.scripts - a.scripts)
+      .slice(0, MAX_DATA_CATEGORIES),
+    destinations: Array.from(destinations.entries())
+      .map(
+        ([organization, entry]): SiteDestination => ({
+          organization,
+          hosts: Array.from(entry.hosts).sort(),
+          scripts: entry.scripts.size,
+        })
+      )
+      .sort((a, b) => b.scripts - a.scripts)
+      .slice(0, MAX_DESTINATIONS),
+    generatedAt: Date.now(),
+  };
+}
+
+// Helper: Plain-text fallback when the AI summary isn't available
+function describeSummary(summary: SiteSummary, analyzed: number): string {
+  const { riskCounts, recommendationCounts } = summary;
+  const parts = [
+    `Grade ${summary.grade}: ${summary.gradeReason}.`,
+    `${analyzed} third-party script(s) analyzed: ${riskCounts.CRITICAL} critical, ${riskCounts.HIGH} high, ${riskCounts.MEDIUM} medium and ${riskCounts.LOW} low risk.`,
+  ];
+  if (recommendationCounts.BLOCK > 0) {
+    parts.push(
+      `${recommendationCounts.BLOCK} script(s) should be blocked, starting with ${summary.topConcerns[0]?.scriptName}.`
+    );
+  }
+  if (summary.destinations.length > 0) {
+    parts.push(
+      `Data is sent to ${summary.destinations.length} organization(s), including ${summary.destinations
+        .slice(0, 3)
+        .map((d) => d.organization)
+        .join(", ")}.`
+    );
+  }
+  return parts.join(" ");
+}
+
+// Helper: Prompt context limited to what the per-script analyses say
+function buildSummaryContext(
+  result: AnalysisResult,
+  summary: SiteSummary
+): string {
+  const scripts = [...(result.analyses || [])]
+    .sort(compareRisk)
+    .slice(0, MAX_PROMPT_SCRIPTS)
+    .map(
+      (a) =>
+        `- ${a.scriptName} (${a.scriptUrl}): ${a.riskLevel}, ${a.recommendation}. ${a.purpose}. Collects: ${a.dataCollected.join(", ") || "nothing known"}.`
+    )
+    .join("\n");
+
+  return `Website: ${result.url}
+Grade: ${summary.grade} (${summary.gradeReason})
+Risk counts: ${JSON.stringify(summary.riskCounts)}
+Recommendations: ${JSON.stringify(summary.recommendationCounts)}
+Data categories: ${summary.dataCategories.map((d) => d.category).join(", ") || "none"}
+Destinations: ${summary.destinations.map((d) => d.organization).join(", ") || "none"}
+Not fully analyzed: ${result.skippedScripts?.length || 0} script(s)
+
+Scripts (worst first):
+${scripts || "- none"}`;
+}
+
+// Site summary with an AI-written executive summary. The AI only sees the
+// per-script results; if it fails we fall back to a generated paragraph.
+export async function summarizeSite(
+  result: AnalysisResult,
+  env: Env
+): Promise<SiteSummary> {
+  const summary = buildSiteSummary(result);
+  const analyzed = result.analyses?.length || 0;
+
+  if (analyzed === 0) {
+    return {
+      ...summary,
+      executiveSummary: "No third-party scripts were analyzed on this site.",
+      executiveSummarySource: "generated",
+    };
+  }
+
+  try {
+    const response: any = await env.AI.run(
+      "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+      {
+        messages: [
+          {
+            role: "system",
+            content: `You write executive summaries of third-party script security reports for non-technical site owners.
+
+RULES:
+- Use ONLY the facts in the report below. Do not mention scripts, vendors or risks that are not listed.
+- 3 to 5 sentences, under 120 words, no bullet points or headings.
+- Start with the overall grade, then the most important concerns, then what data leaves the site and to whom.
+- End with the single most useful next step.
+
+${buildSummaryContext(result, summary)}`,
+          },
+          { role: "user", content: "Write the executive summary." },
+        ],
+        temperature: 0.2,
+        max_tokens: 300,
+      }
+    );
+
+    const text = String(response?.response ?? response?.result ?? "").trim();
+    if (text) {
+      return {
+        ...summary,
+        executiveSummary: text,
+        executiveSummarySource: "ai",
+      };
+    }
+  } catch (error) {
+    console.error("[Summary] AI error:", error);
+  }
+
+  return {
+    ...summary,
+    executiveSummary: describeSummary(summary, analyzed),
+    executiveSummarySource: "generated",
+  };
+}
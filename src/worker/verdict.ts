@@ -0,0 +1,198 @@
+import type { AiTelemetry, ScriptVerdict } from "../types";
+
+const RISK_LEVELS: ScriptVerdict["riskLevel"][] = [
+  "LOW",
+  "MEDIUM",
+  "HIGH",
+  "CRITICAL",
+];
+const RECOMMENDATIONS: ScriptVerdict["recommendation"][] = [
+  "ALLOW",
+  "MONITOR",
+  "BLOCK",
+];
+
+// Longest text field kept from the model, and most data categories
+const MAX_TEXT_LENGTH = 1000;
+const MAX_DATA_ITEMS = 20;
+
+const TEXT_FIELDS = [
+  "scriptName",
+  "purpose",
+  "reasoning",
+  "userFriendlyExplanation",
+] as const;
+
+// JSON schema passed to Workers AI JSON mode
+export const VERDICT_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    scriptName: { type: "string" },
+    purpose: { type: "string" },
+    dataCollected: { type: "array", items: { type: "string" } },
+    riskLevel: { type: "string", enum: RISK_LEVELS },
+    reasoning: { type: "string" },
+    recommendation: { type: "string", enum: RECOMMENDATIONS },
+    userFriendlyExplanation: { type: "string" },
+  },
+  required: [
+    "scriptName",
+    "purpose",
+    "dataCollected",
+    "riskLevel",
+    "reasoning",
+    "recommendation",
+    "userFriendlyExplanation",
+  ],
+  additionalProperties: false,
+};
+
+export interface VerdictParse {
+  verdict: ScriptVerdict | null;
+  // Problems that could not be fixed; the caller should retry
+  errors: string[];
+  // Problems that were fixed in place
+  repairs: string[];
+}
+
+// Helper: Turn a model reply into an object, tolerating prose and code
+// fences around the JSON
+function toObject(raw: unknown, repairs: string[]): unknown {
+  if (typeof raw !== "string") return raw;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+    repairs.push("extracted JSON from surrounding text");
+    try {
+      // Trailing commas are the most common syntax slip
+      return JSON.parse(match[0].replace(/,\s*([}\]])/g, "$1"));
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Helper: Match an enum value case-insensitively, with a few synonyms
+function toEnum<T extends string>(
+  value: unknown,
+  allowed: T[],
+  synonyms: Record<string, T> = {}
+): T | null {
+  if (typeof value !== "string") return null;
+  const upper = value.trim().toUpperCase();
+  return allowed.find((option) => option === upper) || synonyms[upper] || null;
+}
+
+// Validate a model reply against the verdict schema. Small slips (case,
+// a string instead of a list, extra fields) are repaired; anything missing
+// or unrecognizable is an error.
+export function parseVerdict(raw: unknown): VerdictParse {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const data = toObject(raw, repairs);
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {
+      verdict: null,
+      errors: ["response is not a JSON object"],
+      repairs,
+    };
+  }
+  const input = data as Record<string, unknown>;
+
+  const allowed = new Set<string>(VERDICT_JSON_SCHEMA.required);
+  for (const key of Object.keys(input)) {
+    if (!allowed.has(key)) repairs.push(`dropped unexpected field "${key}"`);
+  }
+
+  const text: Partial<Record<(typeof TEXT_FIELDS)[number], string>> = {};
+  for (const field of TEXT_FIELDS) {
+    const value = input[field];
+    if (typeof value !== "string" || !value.trim()) {
+      errors.push(`"${field}" must be a non-empty string`);
+      continue;
+    }
+    text[field] = value.trim().slice(0, MAX_TEXT_LENGTH);
+    if (value.trim().length > MAX_TEXT_LENGTH) {
+      repairs.push(`truncated "${field}"`);
+    }
+  }
+
+  let dataCollected: string[] = [];
+  const rawData = input.dataCollected;
+  if (Array.isArray(rawData)) {
+    dataCollected = rawData.filter(
+      (item): item is string => typeof item === "string" && item.trim() !== ""
+    );
+    if (dataCollected.length !== rawData.length) {
+      repairs.push(`removed non-text entries from "dataCollected"`);
+    }
+  } else if (typeof rawData === "string") {
+    dataCollected = rawData.split(",").filter((item) => item.trim() !== "");
+    repairs.push(`split "dataCollected" string into a list`);
+  } else {
+    errors.push(`"dataCollected" must be a list of strings`);
+  }
+  if (dataCollected.length > MAX_DATA_ITEMS) {
+    repairs.push(`trimmed "dataCollected" to ${MAX_DATA_ITEMS} items`);
+  }
+
+  const riskLevel = toEnum(input.riskLevel, RISK_LEVELS, {
+    MODERATE: "MEDIUM",
+    SEVERE: "CRITICAL",
+  });
+  if (!riskLevel) {
+    errors.push(`"riskLevel" must be one of ${RISK_LEVELS.join(", ")}`);
+  } else if (input.riskLevel !== riskLevel) {
+    repairs.push(`normalized "riskLevel" ${JSON.stringify(input.riskLevel)}`);
+  }
+
+  const recommendation = toEnum(input.recommendation, RECOMMENDATIONS, {
+    REVIEW: "MONITOR",
+    WARN: "MONITOR",
+  });
+  if (!recommendation) {
+    errors.push(
+      `"recommendation" must be one of ${RECOMMENDATIONS.join(", ")}`
+    );
+  } else if (input.recommendation !== recommendation) {
+    repairs.push(
+      `normalized "recommendation" ${JSON.stringify(input.recommendation)}`
+    );
+  }
+
+  if (errors.length > 0 || !riskLevel || !recommendation) {
+    return { verdict: null, errors, repairs };
+  }
+
+  const fields = text as Record<(typeof TEXT_FIELDS)[number], string>;
+  return {
+    verdict: {
+      scriptName: fields.scriptName,
+      purpose: fields.purpose,
+      dataCollected: dataCollected
+        .map((item) => item.trim().slice(0, 200))
+        .slice(0, MAX_DATA_ITEMS),
+      riskLevel,
+      reasoning: fields.reasoning,
+      recommendation,
+      userFriendlyExplanation: fields.userFriendlyExplanation,
+    },
+    errors,
+    repairs,
+  };
+}
+
+export function createAiTelemetry(): AiTelemetry {
+  return {
+    calls: 0,
+    attempts: 0,
+    validFirstTry: 0,
+    repaired: 0,
+    retried: 0,
+    fallbacks: 0,
+  };
+}